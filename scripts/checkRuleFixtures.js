@@ -0,0 +1,19 @@
+// Checks the rule fixtures in src/data against the current rules and exits
+// non-zero on any mismatch. Vite loads the TypeScript and JSON modules.
+import { createServer } from 'vite';
+
+const server = await createServer({ appType: 'custom', logLevel: 'error', server: { middlewareMode: true } });
+
+try {
+  const { checkRuleFixtures } = await server.ssrLoadModule('/src/utils/ruleFixtures.ts');
+  const mismatches = checkRuleFixtures();
+
+  if (mismatches.length > 0) {
+    console.error(`Rule fixtures failed:\n${mismatches.map(mismatch => `  - ${mismatch}`).join('\n')}`);
+    process.exitCode = 1;
+  } else {
+    console.log('All rule fixtures pass.');
+  }
+} finally {
+  await server.close();
+}
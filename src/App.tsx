@@ -8,9 +8,12 @@ import BMICalculator from './components/bmi/BMICalculator';
 import DietPlanCreator from './components/diet/DietPlanCreator';
 import HealthChatbot from './components/chat/HealthChatbot';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { ProfileProvider } from './contexts/ProfileContext';
+import { hasSharedAnalysis } from './utils/shareLink';
 
 function App() {
-  const [currentPage, setCurrentPage] = useState('home');
+  // Share links open straight into the scanner, which reads the link itself
+  const [currentPage, setCurrentPage] = useState(() => hasSharedAnalysis(window.location.hash) ? 'scanner' : 'home');
 
   const renderPage = () => {
     switch (currentPage) {
@@ -29,15 +32,17 @@ function App() {
 
   return (
     <ThemeProvider>
-      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col transition-colors duration-300">
-        <Header onNavigate={setCurrentPage} />
-        <main className="flex-grow container mx-auto px-4 py-8">
-          <div className="max-w-4xl mx-auto">
-            {renderPage()}
-          </div>
-        </main>
-        <Footer />
-      </div>
+      <ProfileProvider>
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col transition-colors duration-300">
+          <Header onNavigate={setCurrentPage} />
+          <main className="flex-grow container mx-auto px-4 py-8">
+            <div className="max-w-4xl mx-auto">
+              {renderPage()}
+            </div>
+          </main>
+          <Footer />
+        </div>
+      </ProfileProvider>
     </ThemeProvider>
   );
 }
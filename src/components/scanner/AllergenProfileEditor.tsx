@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ShieldAlert, Plus, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { useProfile } from '../../contexts/ProfileContext';
+import { allergenGroups } from '../../utils/allergenMatcher';
+import { AllergenReaction } from '../../types/allergen';
+
+const AllergenProfileEditor: React.FC = () => {
+  const { profile, addAllergen, removeAllergen } = useProfile();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [reaction, setReaction] = useState<AllergenReaction>('allergy');
+
+  const savedNames = new Set(profile.allergens.map(entry => entry.name.toLowerCase()));
+  const suggestions = allergenGroups.filter(group => !savedNames.has(group.label.toLowerCase()));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    addAllergen({ name, reaction });
+    setName('');
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between p-3 text-left text-gray-700 dark:text-gray-200"
+      >
+        <span className="flex items-center gap-2 font-medium">
+          <ShieldAlert className="h-5 w-5 text-orange-500" />
+          My Allergens & Sensitivities
+          {profile.allergens.length > 0 && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300">
+              {profile.allergens.length}
+            </span>
+          )}
+        </span>
+        {isOpen ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-3 pt-0 space-y-3">
+          <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Nickel, Lanolin, Lavender oil"
+              className="flex-grow min-w-0 p-2 border border-gray-300 dark:border-gray-600 rounded-md
+                        bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                        focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+            <select
+              value={reaction}
+              onChange={(e) => setReaction(e.target.value as AllergenReaction)}
+              className="p-2 border border-gray-300 dark:border-gray-600 rounded-md
+                        bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="allergy">Allergy</option>
+              <option value="sensitivity">Sensitivity</option>
+            </select>
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="flex items-center gap-1 px-3 py-2 rounded-md bg-green-500 text-white hover:bg-green-600 transition-colors disabled:bg-gray-400"
+            >
+              <Plus className="h-4 w-4" />
+              Add
+            </button>
+          </form>
+
+          {profile.allergens.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {profile.allergens.map(entry => (
+                <span
+                  key={entry.name}
+                  className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm ${
+                    entry.reaction === 'allergy'
+                      ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                      : 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300'
+                  }`}
+                >
+                  {entry.name}
+                  <span className="text-xs opacity-75">({entry.reaction})</span>
+                  <button
+                    onClick={() => removeAllergen(entry.name)}
+                    aria-label={`Remove ${entry.name}`}
+                    className="hover:opacity-75"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Add the ingredients you react to and every scan will be checked against them.
+            </p>
+          )}
+
+          {suggestions.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Common allergens:</p>
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map(group => (
+                  <button
+                    key={group.id}
+                    onClick={() => addAllergen({ name: group.label, reaction })}
+                    className="text-xs px-2 py-1 rounded-full border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-green-500 hover:text-green-600 transition-colors"
+                  >
+                    + {group.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AllergenProfileEditor;
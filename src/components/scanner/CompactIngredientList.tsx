@@ -0,0 +1,40 @@
+import React from 'react';
+import { Ingredient } from '../../types/ingredient';
+import SafetyBadge from './SafetyBadge';
+
+interface CompactIngredientListProps {
+  ingredients: Ingredient[];
+  scoreLabel?: string;
+}
+
+// One row per ingredient, for sub-ingredients and "may contain" lists
+const CompactIngredientList: React.FC<CompactIngredientListProps> = ({ ingredients, scoreLabel }) => (
+  <ul className="space-y-2">
+    {ingredients.map((ingredient, index) => (
+      <li key={index} className="text-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className="text-gray-800 dark:text-gray-200">
+            <span className="font-medium">{ingredient.name}</span>
+            {ingredient.concentration !== undefined && ` (${ingredient.concentration}%)`}
+            <span className="text-gray-500 dark:text-gray-400"> · {ingredient.functions.join(', ')}</span>
+          </span>
+          <SafetyBadge
+            safetyLevel={ingredient.safetyLevel}
+            ewgScore={ingredient.ewgScore}
+            scoreLabel={scoreLabel ?? (ingredient.source !== 'ewg' ? 'Score' : undefined)}
+          />
+        </div>
+        {ingredient.concerns.length > 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{ingredient.concerns.join(', ')}</p>
+        )}
+        {ingredient.children && (
+          <div className="mt-2 pl-4 border-l-2 border-gray-200 dark:border-gray-700">
+            <CompactIngredientList ingredients={ingredient.children} scoreLabel={scoreLabel} />
+          </div>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+export default CompactIngredientList;
@@ -0,0 +1,139 @@
+import React from 'react';
+import { AlertTriangle, Check, Minus } from 'lucide-react';
+import { ComparedIngredient, ProductComparison } from '../../types/comparison';
+import SafetyBadge from './SafetyBadge';
+
+interface ComparisonResultsProps {
+  comparison: ProductComparison;
+  scoreLabel?: string;
+}
+
+const scoreColor = (score: number): string => {
+  if (score <= 2) return 'text-green-500';
+  if (score <= 4) return 'text-blue-500';
+  if (score <= 6) return 'text-yellow-500';
+  return 'text-red-500';
+};
+
+// One row per ingredient with a cell per product
+const PresenceTable: React.FC<{ entries: ComparedIngredient[]; labels: string[]; showScores?: boolean }> = ({
+  entries,
+  labels,
+  showScores
+}) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400">
+          <th className="py-1 pr-2 font-medium">Ingredient</th>
+          {labels.map((label, index) => (
+            <th key={index} className="py-1 px-2 font-medium">{label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map(entry => (
+          <tr key={entry.key} className="border-t border-gray-100 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+            <td className="py-1 pr-2 font-medium">{entry.name}</td>
+            {entry.matches.map((match, index) => (
+              <td key={index} className="py-1 px-2">
+                {match ? (
+                  <span className="flex items-center gap-1">
+                    {showScores ? (
+                      <AlertTriangle className="h-4 w-4 text-red-500" />
+                    ) : (
+                      <Check className="h-4 w-4 text-green-500" />
+                    )}
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      #{match.position}{showScores && ` · ${match.ewgScore}/10`}
+                    </span>
+                  </span>
+                ) : (
+                  <Minus className="h-4 w-4 text-gray-300 dark:text-gray-600" />
+                )}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const ComparisonResults: React.FC<ComparisonResultsProps> = ({ comparison, scoreLabel }) => {
+  const labels = comparison.products.map(({ label }) => label);
+
+  return (
+    <div className="pt-6 border-t border-gray-200 dark:border-gray-700 animate-fadeIn space-y-6">
+      <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Product Comparison</h2>
+
+      <div className={`grid grid-cols-1 gap-4 ${labels.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+        {comparison.products.map(({ label, ingredients, productScore }, index) => (
+          <div key={index} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+            <h3 className="font-medium text-gray-800 dark:text-white">{label}</h3>
+            <p className={`text-2xl font-semibold ${scoreColor(productScore.score)}`}>
+              {productScore.score}<span className="text-sm text-gray-500 dark:text-gray-400">/10</span>
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {ingredients.filter(ing => !ing.mayContain).length} ingredients
+              {' · '}
+              {comparison.highConcern.filter(entry => entry.matches[index]).length} high concern
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-800 dark:text-white mb-2">High-concern ingredients</h3>
+        {comparison.highConcern.length > 0 ? (
+          <PresenceTable entries={comparison.highConcern} labels={labels} showScores />
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">None of these products contains a high-concern ingredient.</p>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-800 dark:text-white mb-2">
+          Shared ingredients ({comparison.shared.length})
+        </h3>
+        {comparison.shared.length > 0 ? (
+          <PresenceTable entries={comparison.shared} labels={labels} />
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">These products have no ingredients in common.</p>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-800 dark:text-white mb-2">Unique ingredients</h3>
+        <div className={`grid grid-cols-1 gap-4 ${labels.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+          {comparison.unique.map((entries, index) => (
+            <div key={index}>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Only in {labels[index]}</p>
+              {entries.length > 0 ? (
+                <ul className="space-y-1">
+                  {entries.map(entry => {
+                    const match = entry.matches[index];
+                    return match && (
+                      <li key={entry.key} className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-800 dark:text-gray-200">
+                        {match.name}
+                        <SafetyBadge
+                          safetyLevel={match.safetyLevel}
+                          ewgScore={match.ewgScore}
+                          scoreLabel={scoreLabel ?? (match.source !== 'ewg' ? 'Score' : undefined)}
+                        />
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Nothing unique</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonResults;
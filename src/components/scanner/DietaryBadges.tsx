@@ -0,0 +1,54 @@
+import React from 'react';
+import { Leaf, Moon } from 'lucide-react';
+import { CompatibilityStatus, CompatibilityVerdict, DietaryCompatibility } from '../../types/origin';
+
+interface DietaryBadgesProps {
+  compatibility: DietaryCompatibility;
+}
+
+const statusStyles: Record<CompatibilityStatus, string> = {
+  compatible: 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800/30 text-green-700 dark:text-green-300',
+  uncertain: 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800/30 text-yellow-700 dark:text-yellow-300',
+  incompatible: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800/30 text-red-700 dark:text-red-300',
+};
+
+const names = (verdict: CompatibilityVerdict, key: 'offending' | 'uncertain') =>
+  Array.from(new Set(verdict[key].map(ingredient => ingredient.name))).join(', ');
+
+const VerdictBadge: React.FC<{
+  icon: React.ReactNode;
+  verdict: CompatibilityVerdict;
+  labels: Record<CompatibilityStatus, string>;
+}> = ({ icon, verdict, labels }) => (
+  <div className={`flex-1 min-w-[12rem] p-3 rounded-lg border text-sm ${statusStyles[verdict.status]}`}>
+    <p className="flex items-center gap-2 font-medium">
+      {icon}
+      {labels[verdict.status]}
+    </p>
+    {verdict.offending.length > 0 && <p className="mt-1 text-xs">Contains: {names(verdict, 'offending')}</p>}
+    {verdict.uncertain.length > 0 && <p className="mt-1 text-xs">Check the source of: {names(verdict, 'uncertain')}</p>}
+  </div>
+);
+
+const DietaryBadges: React.FC<DietaryBadgesProps> = ({ compatibility }) => (
+  <div className="mt-3">
+    <div className="flex flex-wrap gap-2">
+      <VerdictBadge
+        icon={<Leaf className="h-4 w-4" />}
+        verdict={compatibility.vegan}
+        labels={{ compatible: 'Vegan ingredients', uncertain: 'Possibly not vegan', incompatible: 'Not vegan' }}
+      />
+      <VerdictBadge
+        icon={<Moon className="h-4 w-4" />}
+        verdict={compatibility.halal}
+        labels={{ compatible: 'Halal-compatible ingredients', uncertain: 'Halal status unclear', incompatible: 'Not halal' }}
+      />
+    </div>
+    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+      Judged from ingredient origins only, not certification or animal testing.
+      {compatibility.unclassified.length > 0 && ` Origin unknown for ${compatibility.unclassified.length} ingredient${compatibility.unclassified.length > 1 ? 's' : ''}.`}
+    </p>
+  </div>
+);
+
+export default DietaryBadges;
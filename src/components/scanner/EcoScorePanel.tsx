@@ -0,0 +1,58 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { EcoLevel, EcoScore } from '../../types/environment';
+import { environmentalCategoryLabels } from '../../utils/environmentalImpact';
+
+interface EcoScorePanelProps {
+  ecoScore: EcoScore;
+}
+
+const levelStyles: Record<EcoLevel, { label: string; color: string; bg: string }> = {
+  none: { label: 'No environmental flags', color: 'text-green-600 dark:text-green-400', bg: 'bg-green-50 dark:bg-green-900/20' },
+  low: { label: 'Low impact', color: 'text-teal-600 dark:text-teal-400', bg: 'bg-teal-50 dark:bg-teal-900/20' },
+  moderate: { label: 'Moderate impact', color: 'text-yellow-600 dark:text-yellow-400', bg: 'bg-yellow-50 dark:bg-yellow-900/20' },
+  high: { label: 'High impact', color: 'text-red-600 dark:text-red-400', bg: 'bg-red-50 dark:bg-red-900/20' },
+};
+
+// Environmental counterpart to the overall safety assessment
+const EcoScorePanel: React.FC<EcoScorePanelProps> = ({ ecoScore }) => {
+  const style = levelStyles[ecoScore.level];
+
+  return (
+    <div className={`mb-6 p-4 rounded-lg ${style.bg}`}>
+      <div className="flex items-center gap-2 mb-2">
+        <Globe className={`h-5 w-5 ${style.color}`} />
+        <h3 className={`font-medium ${style.color}`}>Environmental Impact</h3>
+      </div>
+      <p className={`${style.color} font-medium`}>
+        {style.label} <span className="text-sm">(eco score {ecoScore.score}/10)</span>
+      </p>
+      {ecoScore.categories.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {ecoScore.categories.map(category => (
+            <span
+              key={category}
+              className="text-xs px-2 py-0.5 rounded-full bg-white/60 dark:bg-gray-800/60 text-gray-700 dark:text-gray-300"
+            >
+              {environmentalCategoryLabels[category]}
+            </span>
+          ))}
+        </div>
+      )}
+      {ecoScore.flagged.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm text-gray-700 dark:text-gray-300">
+          {ecoScore.flagged.map(({ name, flags }, index) => (
+            <li key={index}>
+              <span className="font-medium">{name}:</span> {flags.map(flag => flag.note).join('; ')}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        Scored separately from the safety assessment; a product can be safe to use and still hard on the environment.
+      </p>
+    </div>
+  );
+};
+
+export default EcoScorePanel;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Scale, Hash } from 'lucide-react';
+import { FoodAdditiveInfo, FssaiStatus } from '../../types/foodAdditive';
+
+interface FoodAdditiveDetailsProps {
+  additive: FoodAdditiveInfo;
+}
+
+const statusLabels: Record<FssaiStatus, string> = {
+  permitted: 'Permitted',
+  restricted: 'Restricted',
+  'not-permitted': 'Not permitted',
+};
+
+const statusColors: Record<FssaiStatus, string> = {
+  'not-permitted': 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  restricted: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  permitted: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+};
+
+const FoodAdditiveDetails: React.FC<FoodAdditiveDetailsProps> = ({ additive }) => (
+  <div className="space-y-1 text-sm text-gray-600 dark:text-gray-400">
+    <p className="flex items-center gap-2">
+      <Hash className="h-4 w-4 flex-shrink-0" />
+      <span className="font-medium">INS {additive.ins}</span>
+      <span>/ {additive.eNumber}</span>
+      <span>· {additive.functionalClasses.join(', ')}</span>
+    </p>
+    <p className="pl-6">
+      <span className="font-medium">ADI:</span>{' '}
+      {additive.adi.maxMgPerKg !== null
+        ? `0–${additive.adi.maxMgPerKg} mg/kg body weight per day`
+        : 'Not specified (no safety limit needed)'}
+      {' '}({additive.adi.source})
+    </p>
+    <div className="flex flex-wrap items-start gap-2">
+      <Scale className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <span className="font-medium">FSSAI:</span>
+      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${statusColors[additive.fssai.status]}`}>
+        {statusLabels[additive.fssai.status]}
+      </span>
+    </div>
+  </div>
+);
+
+export default FoodAdditiveDetails;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Flower2, Plus } from 'lucide-react';
+import { FragranceAllergenReport } from '../../types/fragrance';
+import { useProfile } from '../../contexts/ProfileContext';
+import { fragranceAllergenSource } from '../../utils/fragranceAllergens';
+
+interface FragranceAllergenPanelProps {
+  report: FragranceAllergenReport;
+}
+
+// Only shown for products with fragrance or a named fragrance allergen
+const FragranceAllergenPanel: React.FC<FragranceAllergenPanelProps> = ({ report }) => {
+  const { addAllergen } = useProfile();
+  if (!report.hasFragrance && report.hits.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-purple-50 dark:bg-purple-900/20">
+      <div className="flex items-center gap-2 mb-2">
+        <Flower2 className="h-5 w-5 text-purple-600 dark:text-purple-400" />
+        <h3 className="font-medium text-purple-700 dark:text-purple-300">Fragrance Allergens</h3>
+        <span className="text-xs px-2 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300">
+          load {report.load}
+        </span>
+      </div>
+
+      {report.undisclosed && (
+        <p className="text-sm text-purple-800 dark:text-purple-300 mb-2">
+          Contains undisclosed fragrance: parfum is listed but none of the declarable allergens are named.
+          They are either below the labelling threshold or the label is incomplete.
+        </p>
+      )}
+
+      {report.fragranceProfileMatches.map(({ ingredient, entry }, index) => (
+        <p key={index} className="text-sm font-medium text-red-700 dark:text-red-300 mb-2">
+          {ingredient.name} is covered by your {entry.reaction} to {entry.name}.
+        </p>
+      ))}
+
+      {report.hits.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {report.hits.map(({ ingredient, allergen, profileMatch }, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2 text-gray-700 dark:text-gray-300">
+              <span className="font-medium">{ingredient.name}</span>
+              {allergen.name.toLowerCase() !== ingredient.name.toLowerCase() && (
+                <span className="text-gray-500 dark:text-gray-400">({allergen.name})</span>
+              )}
+              {allergen.list === '2023' && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-white/60 dark:bg-gray-800/60">added 2023</span>
+              )}
+              {profileMatch ? (
+                <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+                  your {profileMatch.entry.reaction}: {profileMatch.entry.name}
+                </span>
+              ) : (
+                <button
+                  onClick={() => addAllergen({ name: allergen.name, reaction: 'allergy' })}
+                  className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-green-500 hover:text-green-600 transition-colors"
+                >
+                  <Plus className="h-3 w-3" />
+                  Add to my allergens
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        EU labels must name these above 0.001% in leave-on and 0.01% in rinse-off products ({fragranceAllergenSource}).
+      </p>
+    </div>
+  );
+};
+
+export default FragranceAllergenPanel;
@@ -2,75 +2,88 @@ import React, { useRef, useState } from 'react';
 import Webcam from 'react-webcam';
 import { Camera, Upload, X } from 'lucide-react';
 import { createWorker } from 'tesseract.js';
+import { LabelLanguage } from '../../types/translation';
 
 interface ImageCaptureProps {
-  onTextExtracted: (text: string) => void;
+  // `rawText` is the OCR output before cleaning, when there was any
+  onTextExtracted: (text: string, rawText?: string) => void;
+  // Called with the photo before OCR starts
+  onImageCaptured?: (imageUrl: string) => void;
+  language?: LabelLanguage | 'auto';
 }
 
-const ImageCapture: React.FC<ImageCaptureProps> = ({ onTextExtracted }) => {
-  const webcamRef = useRef<Webcam>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const [showCamera, setShowCamera] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
+// Tesseract trained-data codes; auto-detection loads the Latin-script languages only
+const OCR_LANGUAGES: Record<LabelLanguage | 'auto', string> = {
+  auto: 'eng+fra+deu+spa',
+  en: 'eng',
+  fr: 'fra',
+  de: 'deu',
+  es: 'spa',
+  hi: 'hin+eng',
+};
 
-  const cleanIngredientText = (text: string): string => {
-    // Remove common non-ingredient sections
-    const removePatterns = [
-      /ingredients:/i,
-      /contains:/i,
-      /warning:/i,
-      /directions:/i,
-      /how to use:/i,
-      /manufactured by:/i,
-      /distributed by:/i,
-      /made in/i,
-      /\d+(\.\d+)?%/g, // Remove percentages
-      /\([^)]*\)/g, // Remove parentheses and their contents
-      /\bmay\s+contain\b.*$/i, // Remove "may contain" statements
-      /best before/i,
-      /expiry date/i,
-      /batch no/i,
-      /mfg date/i,
-      /www\.[^\s]+/g, // Remove websites
-      /\d{6,}/g, // Remove long numbers (batch codes, etc.)
-    ];
+const cleanIngredientText = (text: string): string => {
+  // Remove common non-ingredient sections
+  const removePatterns = [
+    /ingredients:/i,
+    /contains:/i,
+    /warning:/i,
+    /directions:/i,
+    /how to use:/i,
+    /manufactured by:/i,
+    /distributed by:/i,
+    /made in/i,
+    /best before/i,
+    /expiry date/i,
+    /batch no/i,
+    /mfg date/i,
+    /www\.[^\s]+/g, // Remove websites
+    /\d{6,}/g, // Remove long numbers (batch codes, etc.)
+  ];
 
-    let cleanedText = text.toLowerCase();
-    
-    // Apply cleaning patterns
-    removePatterns.forEach(pattern => {
-      cleanedText = cleanedText.replace(pattern, '');
-    });
+  let cleanedText = text.toLowerCase();
+  
+  // Apply cleaning patterns
+  removePatterns.forEach(pattern => {
+    cleanedText = cleanedText.replace(pattern, '');
+  });
 
-    // Split by common delimiters and clean each ingredient
-    const ingredients = cleanedText
-      .split(/[,;•|\n]+/)
-      .map(ingredient => {
-        let cleaned = ingredient.trim()
-          .replace(/^[-•*]+/, '') // Remove leading bullets
-          .replace(/\s+/g, ' ') // Normalize spaces
-          .trim();
-        
-        // Remove numeric prefixes
-        cleaned = cleaned.replace(/^\d+\.\s*/, '');
-        
-        return cleaned;
-      })
-      .filter(ingredient => 
-        ingredient && 
-        ingredient.length > 1 && 
-        !/^\d+$/.test(ingredient) && // Remove pure numbers
-        !/^[a-z]$/.test(ingredient) && // Remove single letters
-        !/^(and|or|contains|with)$/i.test(ingredient) // Remove common connecting words
-      );
+  // Split by common delimiters and clean each ingredient
+  const ingredients = cleanedText
+    .split(/[;•|\n]+|(?<!\d),|,(?!\d)/) // Keep decimal commas like "0,5%" intact
+    .map(ingredient => {
+      let cleaned = ingredient.trim()
+        .replace(/^[-•*]+/, '') // Remove leading bullets
+        .replace(/\s+/g, ' ') // Normalize spaces
+        .trim();
+      
+      // Remove numeric prefixes
+      cleaned = cleaned.replace(/^\d+\.\s*/, '');
+      
+      return cleaned;
+    })
+    .filter(ingredient => 
+      ingredient && 
+      ingredient.length > 1 && 
+      !/^\d{1,2}$/.test(ingredient) && // Remove stray numbers; 3-4 digits may be INS codes
+      !/^[a-z]$/.test(ingredient) && // Remove single letters
+      !/^(and|or|contains|with)$/i.test(ingredient) // Remove common connecting words
+    );
 
-    return ingredients.join(', ');
-  };
+  return ingredients.join(', ');
+};
 
-  const extractText = async (imageUrl: string) => {
+const ImageCapture: React.FC<ImageCaptureProps> = ({ onTextExtracted, onImageCaptured, language = 'auto' }) => {
+  const webcamRef = useRef<Webcam>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const extractText = React.useCallback(async (imageUrl: string) => {
     setIsProcessing(true);
+    onImageCaptured?.(imageUrl);
     try {
-      const worker = await createWorker({
+      const worker = await createWorker(OCR_LANGUAGES[language], undefined, {
         workerPath: 'https://unpkg.com/tesseract.js@v5.0.4/dist/worker.min.js',
         langPath: 'https://tessdata.projectnaptha.com/4.0.0',
         corePath: 'https://unpkg.com/tesseract.js-core@v5.0.0/tesseract-core.wasm.js',
@@ -78,7 +91,10 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({ onTextExtracted }) => {
 
       // Set image processing parameters
       await worker.setParameters({
-        tessedit_char_whitelist: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789,.-()[] ',
+        // The ASCII whitelist would strip accents and Devanagari, so only apply it to English labels
+        tessedit_char_whitelist: language === 'en'
+          ? 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789,.-()[]%+/: '
+          : '',
         tessedit_pageseg_mode: '6', // Assume uniform text block
         preserve_interword_spaces: '1',
       });
@@ -92,7 +108,7 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({ onTextExtracted }) => {
         const textString = String(extractedText).trim();
         if (textString) {
           const cleanedText = cleanIngredientText(textString);
-          onTextExtracted(cleanedText);
+          onTextExtracted(cleanedText, textString);
         } else {
           onTextExtracted('No ingredients found in the image');
         }
@@ -105,7 +121,7 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({ onTextExtracted }) => {
       onTextExtracted('Error processing image');
     }
     setIsProcessing(false);
-  };
+  }, [language, onImageCaptured, onTextExtracted]);
 
   const handleCapture = React.useCallback(() => {
     const imageSrc = webcamRef.current?.getScreenshot();
@@ -113,7 +129,7 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({ onTextExtracted }) => {
       extractText(imageSrc);
       setShowCamera(false);
     }
-  }, [webcamRef]);
+  }, [webcamRef, extractText]);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -1,48 +1,149 @@
-import React from 'react';
-import { AlertTriangle, CheckCircle, AlertCircle, Info, ShieldCheck, Beaker, Leaf, Link } from 'lucide-react';
-import { Ingredient } from '../../types/ingredient';
+import React, { useMemo } from 'react';
+import { AlertTriangle, CheckCircle, AlertCircle, Info, ShieldCheck, ShieldAlert, Beaker, Leaf, Link, Database, Languages } from 'lucide-react';
+import { AnalysisMode, Ingredient, OverallSafetyLevel } from '../../types/ingredient';
 import SafetyBadge from './SafetyBadge';
+import { useProfile } from '../../contexts/ProfileContext';
+import { findAllergenMatches } from '../../utils/allergenMatcher';
+import { calculateProductScore, getOverallSafetyLevel } from '../../utils/productScoring';
+import ScoreBreakdown from './ScoreBreakdown';
+import InteractionsPanel from './InteractionsPanel';
+import RegulatoryStatusBadge from './RegulatoryStatusBadge';
+import FoodAdditiveDetails from './FoodAdditiveDetails';
+import ScoreProvenance from './ScoreProvenance';
+import ScoreTrace from './ScoreTrace';
+import CompactIngredientList from './CompactIngredientList';
+import { flattenIngredients } from '../../utils/ingredientTree';
+import { getLanguageLabel } from '../../utils/ingredientTranslation';
+import { evaluateInteractions } from '../../utils/interactionEngine';
+import { findPregnancyFlags } from '../../utils/pregnancySafety';
+import PregnancySafetyBand from './PregnancySafetyBand';
+import { assessSkinSuitability } from '../../utils/skinSuitability';
+import SkinSuitabilityPanel from './SkinSuitabilityPanel';
+import { assessDietaryCompatibility, originLabels } from '../../utils/ingredientOrigin';
+import DietaryBadges from './DietaryBadges';
+import { calculateEcoScore, environmentalCategoryLabels } from '../../utils/environmentalImpact';
+import EcoScorePanel from './EcoScorePanel';
+import { analyzeFragranceAllergens } from '../../utils/fragranceAllergens';
+import FragranceAllergenPanel from './FragranceAllergenPanel';
+import ShareButton from './ShareButton';
+import { SharedAnalysis } from '../../types/share';
+
+const overallSafetyStyles: Record<OverallSafetyLevel, { color: string; bg: string }> = {
+  Safe: { color: 'text-green-500', bg: 'bg-green-50 dark:bg-green-900/20' },
+  'Moderately Safe': { color: 'text-blue-500', bg: 'bg-blue-50 dark:bg-blue-900/20' },
+  'Use with Caution': { color: 'text-yellow-500', bg: 'bg-yellow-50 dark:bg-yellow-900/20' },
+  'Potentially Unsafe': { color: 'text-red-500', bg: 'bg-red-50 dark:bg-red-900/20' },
+};
 
 interface IngredientResultsProps {
   ingredients: Ingredient[];
+  mode?: AnalysisMode;
+  // Inputs behind these results; shows a Share action when set
+  share?: SharedAnalysis;
 }
 
-const IngredientResults: React.FC<IngredientResultsProps> = ({ ingredients }) => {
+const IngredientResults: React.FC<IngredientResultsProps> = ({ ingredients, mode = 'cosmetic', share }) => {
+  const { profile } = useProfile();
+  // Results re-render once per ingredient while streaming, so only re-run these when their inputs change
+  const allergenMatches = useMemo(
+    () => findAllergenMatches(ingredients, profile.allergens),
+    [ingredients, profile.allergens]
+  );
+  const interactions = useMemo(() => evaluateInteractions(ingredients), [ingredients]);
+  const pregnancyFlags = useMemo(
+    () => findPregnancyFlags(ingredients, profile.lifeStages),
+    [ingredients, profile.lifeStages]
+  );
+  // Comedogenicity and irritancy ratings only exist for cosmetic ingredients
+  const skinVerdict = useMemo(
+    () => (mode === 'cosmetic' ? assessSkinSuitability(ingredients, profile.skinTypes) : null),
+    [ingredients, mode, profile.skinTypes]
+  );
+  const fragranceReport = useMemo(
+    () => (mode === 'cosmetic' ? analyzeFragranceAllergens(ingredients, profile.allergens) : null),
+    [ingredients, mode, profile.allergens]
+  );
+
+  // "May contain" items are shown apart since they aren't in every variant
+  const listed = ingredients.filter(ing => !ing.mayContain);
+  const mayContain = ingredients.filter(ing => ing.mayContain);
+  const foodScoreLabel = mode === 'food' ? 'Score' : undefined;
+  const translatedFrom = Array.from(new Set(
+    flattenIngredients(ingredients).flatMap(ing => (ing.translatedFrom ? [getLanguageLabel(ing.translatedFrom.language)] : []))
+  ));
+
   // Group ingredients by safety level
-  const highConcern = ingredients.filter(ing => ing.safetyLevel === 'High Concern');
-  const moderateConcern = ingredients.filter(ing => ing.safetyLevel === 'Moderate Concern');
-  const lowConcern = ingredients.filter(ing => ing.safetyLevel === 'Low Concern');
-
-  // Calculate overall safety score
-  const calculateOverallSafety = () => {
-    const totalScore = ingredients.reduce((acc, ing) => acc + ing.ewgScore, 0);
-    const avgScore = totalScore / ingredients.length;
-    
-    if (avgScore <= 2) return { level: 'Safe', color: 'text-green-500', bg: 'bg-green-50 dark:bg-green-900/20' };
-    if (avgScore <= 4) return { level: 'Moderately Safe', color: 'text-blue-500', bg: 'bg-blue-50 dark:bg-blue-900/20' };
-    if (avgScore <= 6) return { level: 'Use with Caution', color: 'text-yellow-500', bg: 'bg-yellow-50 dark:bg-yellow-900/20' };
-    return { level: 'Potentially Unsafe', color: 'text-red-500', bg: 'bg-red-50 dark:bg-red-900/20' };
-  };
-
-  const safety = calculateOverallSafety();
+  const highConcern = listed.filter(ing => ing.safetyLevel === 'High Concern');
+  const moderateConcern = listed.filter(ing => ing.safetyLevel === 'Moderate Concern');
+  const lowConcern = listed.filter(ing => ing.safetyLevel === 'Low Concern');
+
+  // Weight each ingredient by concentration or label position
+  const productScore = useMemo(() => calculateProductScore(ingredients), [ingredients]);
+  const dietary = useMemo(() => assessDietaryCompatibility(ingredients), [ingredients]);
+  const ecoScore = useMemo(() => calculateEcoScore(ingredients), [ingredients]);
+
+  const safetyLevel = getOverallSafetyLevel(productScore.score);
+  const safety = { level: safetyLevel, ...overallSafetyStyles[safetyLevel] };
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 animate-fadeIn transition-colors duration-300">
-      <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
-        Ingredient Analysis Results
-      </h2>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">
+          Ingredient Analysis Results
+        </h2>
+        {share && <ShareButton analysis={share} />}
+      </div>
+
+      {translatedFrom.length > 0 && (
+        <p className="-mt-2 mb-4 text-sm text-gray-600 dark:text-gray-400">
+          <Languages className="h-4 w-4 inline mr-1" />
+          {translatedFrom.join(' and ')} names were translated to INCI before analysis.
+        </p>
+      )}
+
+      {allergenMatches.length > 0 && (
+        <div className="mb-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border-2 border-red-300 dark:border-red-700">
+          <div className="flex items-center gap-2 mb-2">
+            <ShieldAlert className="h-6 w-6 text-red-600 dark:text-red-400" />
+            <h3 className="text-lg font-semibold text-red-800 dark:text-red-300">
+              Contains your allergen{allergenMatches.length > 1 ? 's' : ''}
+            </h3>
+          </div>
+          <ul className="space-y-1">
+            {allergenMatches.map(({ ingredient, entry, matchedOn }, index) => (
+              <li key={index} className="text-sm text-red-700 dark:text-red-300">
+                <span className="font-medium">{ingredient.name}</span>
+                {' '}matches your {entry.reaction} to <span className="font-medium">{entry.name}</span>
+                {matchedOn.toLowerCase() !== entry.name.toLowerCase() && ` (via ${matchedOn})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <PregnancySafetyBand flags={pregnancyFlags} lifeStages={profile.lifeStages} />
+
+      {skinVerdict && <SkinSuitabilityPanel verdict={skinVerdict} />}
+
+      {fragranceReport && <FragranceAllergenPanel report={fragranceReport} />}
 
       <div className={`mb-6 p-4 rounded-lg ${safety.bg} border border-${safety.color}/20`}>
         <div className="flex items-center gap-2 mb-2">
           <ShieldCheck className={`h-5 w-5 ${safety.color}`} />
           <h3 className={`font-medium ${safety.color}`}>Overall Safety Assessment</h3>
         </div>
-        <p className={`${safety.color} font-medium`}>{safety.level}</p>
+        <p className={`${safety.color} font-medium`}>
+          {safety.level} <span className="text-sm">(score {productScore.score}/10)</span>
+        </p>
         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-          Based on {ingredients.length} analyzed ingredients
+          Based on {listed.length} analyzed ingredients, weighted by concentration and label position
         </p>
+        <ScoreBreakdown productScore={productScore} />
+        <DietaryBadges compatibility={dietary} />
       </div>
 
+      <EcoScorePanel ecoScore={ecoScore} />
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
         <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-lg border border-red-100 dark:border-red-800/30">
           <div className="flex items-center gap-2 mb-2">
@@ -69,8 +170,10 @@ const IngredientResults: React.FC<IngredientResultsProps> = ({ ingredients }) =>
         </div>
       </div>
 
+      <InteractionsPanel findings={interactions} />
+
       <div className="space-y-6">
-        {ingredients.map((ingredient, index) => (
+        {listed.map((ingredient, index) => (
           <div 
             key={index}
             className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 transition-all duration-200 hover:shadow-md"
@@ -78,66 +181,140 @@ const IngredientResults: React.FC<IngredientResultsProps> = ({ ingredients }) =>
             <div className="flex flex-wrap justify-between items-start gap-2 mb-3">
               <div>
                 <h3 className="text-lg font-medium text-gray-900 dark:text-white">{ingredient.name}</h3>
+                {ingredient.canonicalName && ingredient.canonicalName.toLowerCase() !== ingredient.name.toLowerCase() && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    <span className="font-medium">{ingredient.additive ? 'Additive:' : 'INCI:'}</span> {ingredient.canonicalName}
+                  </p>
+                )}
+                {ingredient.translatedFrom && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    <span className="font-medium">On label:</span> {ingredient.translatedFrom.original}
+                    {' '}({getLanguageLabel(ingredient.translatedFrom.language)})
+                  </p>
+                )}
                 {ingredient.scientificName && (
                   <p className="text-sm text-gray-600 dark:text-gray-400">
                     <Beaker className="h-4 w-4 inline mr-1" />
                     {ingredient.scientificName}
                   </p>
                 )}
+                {ingredient.cache?.hit && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    <Database className="h-3 w-3 inline mr-1" />
+                    {ingredient.cache.stale ? 'Offline: using expired cached data from ' : 'Cached data from '}
+                    {new Date(ingredient.cache.cachedAt).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-col items-end gap-1">
+                <SafetyBadge
+                  safetyLevel={ingredient.safetyLevel}
+                  ewgScore={ingredient.ewgScore}
+                  scoreLabel={foodScoreLabel ?? (ingredient.source !== 'ewg' ? 'Score' : undefined)}
+                />
+                <ScoreProvenance
+                  source={ingredient.source}
+                  confidence={ingredient.confidence}
+                  lookedUpAt={ingredient.lookedUpAt}
+                />
               </div>
-              <SafetyBadge
-                safetyLevel={ingredient.safetyLevel}
-                ewgScore={ingredient.ewgScore}
-              />
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
               <div className="space-y-2">
                 <p className="text-gray-600 dark:text-gray-400">
-                  <span className="font-medium">Function:</span> {ingredient.function}
+                  <span className="font-medium">{ingredient.functions.length > 1 ? 'Functions:' : 'Function:'}</span> {ingredient.functions.join(', ')}
                 </p>
                 <p className="text-gray-600 dark:text-gray-400">
                   <span className="font-medium">Common Use:</span> {ingredient.commonUse}
                 </p>
-                {ingredient.benefits && (
+                <p className="text-gray-600 dark:text-gray-400">
+                  <span className="font-medium">Origin:</span> {originLabels[ingredient.origin.origin]}
+                  {ingredient.origin.note && ingredient.origin.origin.includes('animal') && ` (${ingredient.origin.note})`}
+                </p>
+                {ingredient.environmental.flags.length > 0 && (
+                  <p className="text-gray-600 dark:text-gray-400">
+                    <span className="font-medium">Environment:</span>{' '}
+                    {Array.from(new Set(ingredient.environmental.flags.map(flag => environmentalCategoryLabels[flag.category]))).join(', ')}
+                  </p>
+                )}
+                {ingredient.fragranceAllergen && (
+                  <p className="text-gray-600 dark:text-gray-400">
+                    <span className="font-medium">Fragrance allergen:</span> {ingredient.fragranceAllergen.name}
+                    {ingredient.fragranceAllergen.list === '2023' && ' (EU list, 2023)'}
+                  </p>
+                )}
+                {ingredient.skin && (
                   <p className="text-gray-600 dark:text-gray-400">
-                    <span className="font-medium">Benefits:</span> {ingredient.benefits}
+                    <span className="font-medium">Comedogenic:</span> {ingredient.skin.comedogenicity}/5
+                    {' · '}
+                    <span className="font-medium">Irritancy:</span> {ingredient.skin.irritancy}/5
+                  </p>
+                )}
+                {ingredient.contextAdjustments && (
+                  <div className="text-gray-600 dark:text-gray-400">
+                    <span className="font-medium">Adjusted for product type:</span>
+                    <ul className="list-disc list-inside">
+                      {ingredient.contextAdjustments.map(adjustment => (
+                        <li key={adjustment.ruleId}>
+                          {adjustment.scoreDelta > 0 ? '+' : ''}{adjustment.scoreDelta}: {adjustment.note}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {ingredient.benefits.length > 0 && (
+                  <p className="text-gray-600 dark:text-gray-400">
+                    <span className="font-medium">Benefits:</span> {ingredient.benefits.join(', ')}
                   </p>
                 )}
               </div>
               
               <div className="space-y-2">
-                {ingredient.reasonForConcern && (
+                {ingredient.concerns.length > 0 && (
                   <div className="flex items-start gap-2 text-gray-600 dark:text-gray-400">
                     <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
-                    <p><span className="font-medium">Concerns:</span> {ingredient.reasonForConcern}</p>
+                    <p><span className="font-medium">Concerns:</span> {ingredient.concerns.join(', ')}</p>
                   </div>
                 )}
                 
-                {ingredient.restrictions && (
+                {mode === 'food'
+                  ? ingredient.additive && <FoodAdditiveDetails additive={ingredient.additive} />
+                  : <RegulatoryStatusBadge regulatory={ingredient.regulatory} jurisdiction={profile.jurisdiction} />}
+
+                {ingredient.restrictions.length > 0 && (
                   <div className="flex items-start gap-2 text-gray-600 dark:text-gray-400">
                     <Info className="h-4 w-4 mt-0.5 flex-shrink-0" />
-                    <p><span className="font-medium">Restrictions:</span> {ingredient.restrictions}</p>
+                    <p><span className="font-medium">Restrictions:</span> {ingredient.restrictions.join(', ')}</p>
                   </div>
                 )}
 
-                {ingredient.naturalAlternatives && (
+                {ingredient.naturalAlternatives.length > 0 && (
                   <div className="flex items-start gap-2 text-gray-600 dark:text-gray-400">
                     <Leaf className="h-4 w-4 mt-0.5 flex-shrink-0" />
-                    <p><span className="font-medium">Natural Alternatives:</span> {ingredient.naturalAlternatives}</p>
+                    <p><span className="font-medium">Natural Alternatives:</span> {ingredient.naturalAlternatives.join(', ')}</p>
                   </div>
                 )}
               </div>
             </div>
 
-            {ingredient.researchLinks && (
+            {ingredient.children && (
+              <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Contains:</p>
+                <CompactIngredientList ingredients={ingredient.children} scoreLabel={foodScoreLabel} />
+              </div>
+            )}
+
+            <ScoreTrace steps={ingredient.scoreTrace} />
+
+            {ingredient.researchLinks.length > 0 && (
               <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
                 <div className="flex items-center gap-2 text-blue-500 dark:text-blue-400">
                   <Link className="h-4 w-4" />
                   <span className="font-medium text-sm">Research Sources:</span>
                 </div>
                 <div className="mt-1 text-sm space-y-1">
-                  {ingredient.researchLinks.split('\n').map((link, i) => (
+                  {ingredient.researchLinks.map((link, i) => (
                     <a
                       key={i}
                       href={link}
@@ -154,6 +331,16 @@ const IngredientResults: React.FC<IngredientResultsProps> = ({ ingredients }) =>
           </div>
         ))}
       </div>
+
+      {mayContain.length > 0 && (
+        <div className="mt-6 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-4">
+          <h3 className="font-medium text-gray-800 dark:text-white">May contain</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            Only present in some shades or batches, so not counted in the overall score.
+          </p>
+          <CompactIngredientList ingredients={mayContain} scoreLabel={foodScoreLabel} />
+        </div>
+      )}
     </div>
   );
 };
@@ -1,50 +1,248 @@
-import React, { useState } from 'react';
-import { Scan, ArrowLeft, AlertTriangle } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Scan, ArrowLeft, AlertTriangle, X, Trash2, FileUp } from 'lucide-react';
 import { analyzeIngredients } from '../../utils/ingredientAnalyzer';
+import { clearIngredientCache, countCachedLookups } from '../../utils/ingredientCache';
 import IngredientResults from './IngredientResults';
 import ImageCapture from './ImageCapture';
-import { Ingredient } from '../../types/ingredient';
+import AllergenProfileEditor from './AllergenProfileEditor';
+import LifeStageToggle from './LifeStageToggle';
+import SkinTypeSelector from './SkinTypeSelector';
+import ProductComparison from './ProductComparison';
+import ReportExportMenu from './ReportExportMenu';
+import ScanHistory from './ScanHistory';
+import RoutinePanel from './RoutinePanel';
+import { useProfile } from '../../contexts/ProfileContext';
+import { jurisdictions, isJurisdiction } from '../../utils/regulatory';
+import { DEFAULT_PRODUCT_TYPE, productTypes } from '../../utils/productContext';
+import { ProductTypeId } from '../../types/productContext';
+import { AnalysisMode, Ingredient } from '../../types/ingredient';
+import { LabelLanguage } from '../../types/translation';
+import { labelLanguages } from '../../utils/ingredientTranslation';
+import { AnalysisReportSource } from '../../types/report';
+import { parseAnalysisReport } from '../../utils/analysisReport';
+import { createThumbnail } from '../../utils/imageThumbnail';
+import { SharedAnalysis } from '../../types/share';
+import { readSharedAnalysis } from '../../utils/shareLink';
+import { ScanRecord } from '../../types/history';
+import { saveScan } from '../../utils/scanHistory';
+import { calculateProductScore } from '../../utils/productScoring';
+
+// Report fields captured when an analysis starts, so later edits to the inputs don't change them
+type AnalysisDetails = Omit<AnalysisReportSource, 'ingredients' | 'mode'> & { language: LabelLanguage | 'auto' };
+
+type AnalysisRequest = SharedAnalysis & { thumbnail?: string; rawText?: string; productName?: string };
 
 interface IngredientScannerProps {
   onNavigate?: (page: string) => void;
 }
 
 const IngredientScanner: React.FC<IngredientScannerProps> = ({ onNavigate }) => {
+  const { profile, setJurisdiction } = useProfile();
   const [ingredients, setIngredients] = useState('');
+  const [mode, setMode] = useState<AnalysisMode>('cosmetic');
+  const [view, setView] = useState<'single' | 'compare' | 'history' | 'routine'>('single');
+  const [productName, setProductName] = useState('');
+  const [productType, setProductType] = useState<ProductTypeId>(DEFAULT_PRODUCT_TYPE);
+  const [language, setLanguage] = useState<LabelLanguage | 'auto'>('auto');
   const [analyzedIngredients, setAnalyzedIngredients] = useState<Ingredient[]>([]);
+  // Mode the current results were produced in, so switching the toggle doesn't relabel them
+  const [resultsMode, setResultsMode] = useState<AnalysisMode>('cosmetic');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number; current: string } | null>(null);
+  const [cachedCount, setCachedCount] = useState(0);
+  // Thumbnail of the label photo the current text was read from
+  const [labelThumbnail, setLabelThumbnail] = useState<string | undefined>();
+  // OCR output before cleaning, kept with the scan in history
+  const [rawOcrText, setRawOcrText] = useState<string | undefined>();
+  const [analysisDetails, setAnalysisDetails] = useState<AnalysisDetails | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const reportInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    countCachedLookups().then(setCachedCount);
+  }, [isAnalyzing]);
+
+  // Stop in-flight lookups when leaving the scanner
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Only reads its arguments, so it can run for a shared link before the inputs' state updates land
+  const runAnalysis = useCallback(async ({ labelText, mode, productType, language, thumbnail, rawText, productName }: AnalysisRequest) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-  const handleAnalyze = async () => {
-    if (!ingredients.trim()) {
-      setError('Please enter ingredients to analyze');
-      return;
-    }
-    
     setIsAnalyzing(true);
     setError(null);
+    setAnalyzedIngredients([]);
+    setResultsMode(mode);
+    setAnalysisDetails({ productType, labelText, thumbnail, language, analyzedAt: Date.now() });
+    setProgress(null);
+
+    // Results arrive in completion order; slot them by index to keep label order
+    const slots: (Ingredient | undefined)[] = [];
     
     try {
-      const results = await analyzeIngredients(ingredients);
+      const results = await analyzeIngredients(labelText, {
+        signal: controller.signal,
+        productType,
+        mode,
+        language,
+        onProgress: ({ index, ingredient, completed, total }) => {
+          // A newer analysis or opened result has replaced this run
+          if (abortControllerRef.current !== controller) return;
+          slots[index] = ingredient;
+          setAnalyzedIngredients(slots.filter((item): item is Ingredient => item !== undefined));
+          setProgress({ completed, total, current: ingredient.name });
+        }
+      });
       if (results.length === 0) {
         setError('No valid ingredients found. Please check your input and try again.');
         return;
       }
       setAnalyzedIngredients(results);
+
+      saveScan({
+        productName: productName?.trim() ?? '',
+        tags: [],
+        rawText,
+        labelText,
+        thumbnail,
+        mode,
+        productType: mode === 'cosmetic' ? productType : undefined,
+        language,
+        ingredients: results,
+        score: calculateProductScore(results).score
+      }).catch(err => {
+        setError('These results could not be saved to your scan history.');
+        console.error('History save error:', err);
+      });
     } catch (err) {
+      if (abortControllerRef.current !== controller) return;
+      // A cut-short run isn't a full analysis, so it can't be exported or shared
+      setAnalysisDetails(null);
+      if (controller.signal.aborted) {
+        setError('Analysis cancelled. Showing the ingredients analyzed so far; re-run the analysis to export or share them.');
+        return;
+      }
       setError('Failed to analyze ingredients. Please try again.');
       console.error('Analysis error:', err);
     } finally {
-      setIsAnalyzing(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsAnalyzing(false);
+        setProgress(null);
+      }
+    }
+  }, []);
+
+  // Opening a share link fills in its inputs and re-runs the analysis
+  const sharedLinkReadRef = useRef(false);
+  useEffect(() => {
+    if (sharedLinkReadRef.current) return;
+    sharedLinkReadRef.current = true;
+
+    readSharedAnalysis(window.location.hash)
+      .then(shared => {
+        if (!shared) return;
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        setView('single');
+        setIngredients(shared.labelText);
+        setMode(shared.mode);
+        if (shared.productType) setProductType(shared.productType);
+        setLanguage(shared.language);
+        setLabelThumbnail(undefined);
+        setRawOcrText(undefined);
+        runAnalysis(shared);
+      })
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'Could not open the shared analysis.');
+        console.error('Share link error:', err);
+      });
+  }, [runAnalysis]);
+
+  const handleAnalyze = () => {
+    if (!ingredients.trim()) {
+      setError('Please enter ingredients to analyze');
+      return;
+    }
+    runAnalysis({ labelText: ingredients, mode, productType, language, thumbnail: labelThumbnail, rawText: rawOcrText, productName });
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearIngredientCache();
+      setCachedCount(0);
+    } catch (err) {
+      setError('Failed to clear cached ingredient data.');
+      console.error('Cache clear error:', err);
+    }
+  };
+
+  const handleImageCaptured = async (imageUrl: string) => {
+    setLabelThumbnail(await createThumbnail(imageUrl));
+  };
+
+  // Shows results from an imported report or the scan history without re-running the analysis
+  const showSavedResults = (saved: AnalysisReportSource & { language: LabelLanguage | 'auto'; productName?: string; rawText?: string }) => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsAnalyzing(false);
+    setProgress(null);
+    setView('single');
+    setMode(saved.mode);
+    setResultsMode(saved.mode);
+    if (saved.productType) setProductType(saved.productType);
+    setLanguage(saved.language);
+    setIngredients(saved.labelText);
+    setProductName(saved.productName ?? '');
+    setLabelThumbnail(saved.thumbnail);
+    setRawOcrText(saved.rawText);
+    setAnalysisDetails({
+      productType: saved.productType,
+      labelText: saved.labelText,
+      thumbnail: saved.thumbnail,
+      language: saved.language,
+      analyzedAt: saved.analyzedAt
+    });
+    setAnalyzedIngredients(saved.ingredients);
+    setError(null);
+  };
+
+  const handleOpenScan = (record: ScanRecord) =>
+    showSavedResults({ ...record, analyzedAt: record.reanalyzedAt ?? record.createdAt });
+
+  // Shows a previously exported JSON report as the current results
+  const handleReportImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const report = parseAnalysisReport(await file.text());
+      showSavedResults({
+        ...report,
+        // Reports don't record it, so a re-run from a share link detects it again
+        language: 'auto',
+        analyzedAt: Date.parse(report.analyzedAt)
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import the report.');
+      console.error('Report import error:', err);
     }
   };
 
-  const handleTextExtracted = (text: string) => {
+  const handleTextExtracted = (text: string, rawText?: string) => {
     if (!text.trim()) {
       setError('No text could be extracted from the image. Please try again or enter ingredients manually.');
       return;
     }
     setIngredients(text);
+    setRawOcrText(rawText);
     setAnalyzedIngredients([]);
     setError(null);
   };
@@ -62,58 +260,237 @@ const IngredientScanner: React.FC<IngredientScannerProps> = ({ onNavigate }) =>
       )}
 
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 transition-colors duration-300">
-        <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
-          Ingredient Analysis
-        </h2>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white">
+            Ingredient Analysis
+          </h2>
+          <div className="flex items-center gap-4">
+            <input
+              type="file"
+              ref={reportInputRef}
+              accept="application/json,.json"
+              onChange={handleReportImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => reportInputRef.current?.click()}
+              disabled={isAnalyzing}
+              className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400 hover:text-green-500 dark:hover:text-green-400 transition-colors disabled:opacity-50"
+            >
+              <FileUp className="h-4 w-4" />
+              Import report
+            </button>
+            {cachedCount > 0 && (
+              <button
+                onClick={handleClearCache}
+                disabled={isAnalyzing}
+                className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4" />
+                Clear cache ({cachedCount})
+              </button>
+            )}
+          </div>
+        </div>
         <p className="text-gray-600 dark:text-gray-300 mb-6">
           Scan or paste ingredients to analyze their safety and potential concerns.
         </p>
         
         <div className="space-y-6">
-          <ImageCapture onTextExtracted={handleTextExtracted} />
-          
-          <textarea
-            className="w-full h-32 p-3 border border-gray-300 dark:border-gray-600 rounded-md 
-                      bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
-                      focus:ring-2 focus:ring-green-500 focus:border-transparent 
-                      resize-none transition-colors duration-200"
-            placeholder="Paste ingredients here (e.g., Water, Glycerin, Fragrance, Sodium Lauryl Sulfate...)"
-            value={ingredients}
-            onChange={(e) => {
-              setIngredients(e.target.value);
-              setError(null);
-            }}
-          />
-          
-          {error && (
-            <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg flex items-center gap-2">
-              <AlertTriangle className="h-5 w-5 text-red-500" />
-              <p className="text-red-700 dark:text-red-300">{error}</p>
+          <AllergenProfileEditor />
+          <LifeStageToggle />
+
+          <div className="flex flex-wrap gap-4">
+            <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden w-fit">
+              {([['cosmetic', 'Cosmetics'], ['food', 'Food']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  disabled={isAnalyzing}
+                  className={`px-4 py-2 text-sm font-medium transition-colors ${
+                    mode === value
+                      ? 'bg-green-500 text-white'
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden w-fit">
+              {([['single', 'Single product'], ['compare', 'Compare'], ['history', 'History'], ['routine', 'My Routine']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setView(value)}
+                  disabled={isAnalyzing}
+                  className={`px-4 py-2 text-sm font-medium transition-colors ${
+                    view === value
+                      ? 'bg-green-500 text-white'
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
+          </div>
+
+          {mode === 'cosmetic' && (
+            <>
+              <SkinTypeSelector />
+
+              <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <span className="font-medium">Product type:</span>
+                <select
+                  value={productType}
+                  onChange={(e) => setProductType(e.target.value as ProductTypeId)}
+                  className="p-2 border border-gray-300 dark:border-gray-600 rounded-md
+                            bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  {productTypes.map(({ id, label }) => (
+                    <option key={id} value={id}>{label}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <span className="font-medium">Regulations for:</span>
+                <select
+                  value={profile.jurisdiction}
+                  onChange={(e) => isJurisdiction(e.target.value) && setJurisdiction(e.target.value)}
+                  className="p-2 border border-gray-300 dark:border-gray-600 rounded-md
+                            bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  {jurisdictions.map(({ id, label, authority }) => (
+                    <option key={id} value={id}>{label} ({authority})</option>
+                  ))}
+                </select>
+              </label>
+            </>
           )}
-          
-          {ingredients && (
-            <button
-              onClick={handleAnalyze}
-              disabled={!ingredients.trim() || isAnalyzing}
-              className={`
-                flex items-center justify-center gap-2 w-full py-2 px-4 rounded-md 
-                text-white font-medium transition-all duration-200
-                ${
-                  !ingredients.trim() || isAnalyzing
-                    ? 'bg-gray-400 cursor-not-allowed'
-                    : 'bg-green-500 hover:bg-green-600 active:bg-green-700'
-                }
-              `}
+
+          <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-medium">Label language:</span>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as LabelLanguage | 'auto')}
+              className="p-2 border border-gray-300 dark:border-gray-600 rounded-md
+                        bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
             >
-              <Scan className="h-5 w-5" />
-              {isAnalyzing ? 'Analyzing...' : 'Analyze Ingredients'}
-            </button>
+              <option value="auto">Detect automatically</option>
+              {labelLanguages.map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+          </label>
+
+          {view === 'history' ? (
+            <ScanHistory onOpen={handleOpenScan} />
+          ) : view === 'routine' ? (
+            <RoutinePanel />
+          ) : view === 'compare' ? (
+            <ProductComparison mode={mode} productType={productType} language={language} />
+          ) : (
+            <>
+              <ImageCapture onTextExtracted={handleTextExtracted} onImageCaptured={handleImageCaptured} language={language} />
+
+              <input
+                type="text"
+                value={productName}
+                onChange={(e) => setProductName(e.target.value)}
+                placeholder="Product name (optional, for your scan history)"
+                className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md
+                          bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                          focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+          
+              <textarea
+                className="w-full h-32 p-3 border border-gray-300 dark:border-gray-600 rounded-md 
+                          bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                          focus:ring-2 focus:ring-green-500 focus:border-transparent 
+                          resize-none transition-colors duration-200"
+                placeholder={mode === 'food'
+                  ? 'Paste ingredients here (e.g., Wheat Flour, Sugar, Emulsifier (INS 471), Colour (150d)...)'
+                  : 'Paste ingredients here (e.g., Water, Glycerin, Fragrance, Sodium Lauryl Sulfate...)'}
+                value={ingredients}
+                onChange={(e) => {
+                  setIngredients(e.target.value);
+                  if (!e.target.value.trim()) {
+                    setLabelThumbnail(undefined);
+                    setRawOcrText(undefined);
+                  }
+                  setError(null);
+                }}
+              />
+          
+              {error && (
+                <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-red-500" />
+                  <p className="text-red-700 dark:text-red-300">{error}</p>
+                </div>
+              )}
+          
+              {ingredients && (
+                <button
+                  onClick={handleAnalyze}
+                  disabled={!ingredients.trim() || isAnalyzing}
+                  className={`
+                    flex items-center justify-center gap-2 w-full py-2 px-4 rounded-md 
+                    text-white font-medium transition-all duration-200
+                    ${
+                      !ingredients.trim() || isAnalyzing
+                        ? 'bg-gray-400 cursor-not-allowed'
+                        : 'bg-green-500 hover:bg-green-600 active:bg-green-700'
+                    }
+                  `}
+                >
+                  <Scan className="h-5 w-5" />
+                  {isAnalyzing ? 'Analyzing...' : 'Analyze Ingredients'}
+                </button>
+              )}
+
+              {isAnalyzing && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300">
+                    <span>
+                      {progress
+                        ? `Analyzed ${progress.completed} of ${progress.total}: ${progress.current}`
+                        : 'Starting analysis...'}
+                    </span>
+                    <button
+                      onClick={handleCancel}
+                      className="flex items-center gap-1 text-red-500 hover:text-red-600 transition-colors"
+                    >
+                      <X className="h-4 w-4" />
+                      Cancel
+                    </button>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-green-500 transition-all duration-300"
+                      style={{ width: `${progress ? (progress.completed / progress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+            </>
           )}
         </div>
       </div>
 
-      {analyzedIngredients.length > 0 && <IngredientResults ingredients={analyzedIngredients} />}
+      {view === 'single' && analyzedIngredients.length > 0 && (
+        <>
+          {analysisDetails && !isAnalyzing && (
+            <ReportExportMenu source={{ ...analysisDetails, ingredients: analyzedIngredients, mode: resultsMode }} />
+          )}
+          <IngredientResults
+            ingredients={analyzedIngredients}
+            mode={resultsMode}
+            share={analysisDetails && !isAnalyzing ? { ...analysisDetails, mode: resultsMode } : undefined}
+          />
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Zap } from 'lucide-react';
+import { InteractionFinding, InteractionSeverity } from '../../types/interaction';
+
+interface InteractionsPanelProps {
+  findings: InteractionFinding[];
+}
+
+const severityStyles: Record<InteractionSeverity, { label: string; badge: string; border: string }> = {
+  high: {
+    label: 'High',
+    badge: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+    border: 'border-red-200 dark:border-red-800/30',
+  },
+  moderate: {
+    label: 'Moderate',
+    badge: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+    border: 'border-yellow-200 dark:border-yellow-800/30',
+  },
+  low: {
+    label: 'Low',
+    badge: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+    border: 'border-blue-200 dark:border-blue-800/30',
+  },
+};
+
+const InteractionsPanel: React.FC<InteractionsPanelProps> = ({ findings }) => {
+  if (findings.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <Zap className="h-5 w-5 text-purple-500" />
+        <h3 className="font-medium text-gray-800 dark:text-white">Interactions</h3>
+      </div>
+      <div className="space-y-3">
+        {findings.map(({ rule, ingredients }) => {
+          const style = severityStyles[rule.severity];
+          return (
+            <div key={rule.id} className={`p-4 rounded-lg border ${style.border}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                <h4 className="font-medium text-gray-900 dark:text-white">{rule.title}</h4>
+                <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${style.badge}`}>
+                  {style.label} severity
+                </span>
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{rule.explanation}</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                <span className="font-medium">Involves:</span> {ingredients.map(ingredient => ingredient.name).join(', ')}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default InteractionsPanel;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Baby } from 'lucide-react';
+import { useProfile } from '../../contexts/ProfileContext';
+import { lifeStages } from '../../utils/pregnancySafety';
+
+const LifeStageToggle: React.FC = () => {
+  const { profile, setLifeStage } = useProfile();
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+      <span className="flex items-center gap-2 font-medium">
+        <Baby className="h-5 w-5 text-pink-500" />
+        Flag ingredients to avoid while:
+      </span>
+      {lifeStages.map(({ id, label }) => (
+        <label key={id} className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={profile.lifeStages.includes(id)}
+            onChange={(e) => setLifeStage(id, e.target.checked)}
+            className="rounded border-gray-300 dark:border-gray-600 text-pink-500 focus:ring-pink-500"
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default LifeStageToggle;
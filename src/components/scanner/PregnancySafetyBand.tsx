@@ -0,0 +1,90 @@
+import React from 'react';
+import { Baby, CheckCircle } from 'lucide-react';
+import { LifeStage, PregnancyFlag, PregnancyFlagLevel } from '../../types/pregnancy';
+
+interface PregnancySafetyBandProps {
+  flags: PregnancyFlag[];
+  lifeStages: LifeStage[];
+}
+
+const stageLabels: Record<LifeStage, string> = {
+  pregnancy: 'pregnancy',
+  breastfeeding: 'breastfeeding',
+};
+
+const levelStyles: Record<PregnancyFlagLevel, { label: string; badge: string }> = {
+  avoid: {
+    label: 'Avoid during',
+    badge: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  },
+  caution: {
+    label: 'Caution during',
+    badge: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  },
+};
+
+// Shown only when the profile has a life stage selected; independent of the safety score
+const PregnancySafetyBand: React.FC<PregnancySafetyBandProps> = ({ flags, lifeStages }) => {
+  if (lifeStages.length === 0) return null;
+  const stagesText = lifeStages.map(stage => stageLabels[stage]).join(' or ');
+
+  if (flags.length === 0) {
+    return (
+      <div className="mb-6 p-3 rounded-lg bg-pink-50 dark:bg-pink-900/20 flex items-center gap-2 text-sm text-pink-800 dark:text-pink-300">
+        <CheckCircle className="h-4 w-4" />
+        No ingredients commonly advised against during {stagesText}.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-pink-50 dark:bg-pink-900/20 border-2 border-pink-300 dark:border-pink-700">
+      <div className="flex items-center gap-2 mb-1">
+        <Baby className="h-6 w-6 text-pink-600 dark:text-pink-400" />
+        <h3 className="text-lg font-semibold text-pink-800 dark:text-pink-300">
+          Not advised during {stagesText}
+        </h3>
+      </div>
+      <p className="text-xs text-pink-700 dark:text-pink-400 mb-3">
+        Separate from the safety score. Check with your doctor or midwife before continuing or stopping any product.
+      </p>
+      <ul className="space-y-3">
+        {flags.map(({ ingredient, rule, stages, note }, index) => (
+          <li key={index} className="text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-gray-900 dark:text-white">{ingredient.name}</span>
+              {rule.label.toLowerCase() !== ingredient.name.toLowerCase() && (
+                <span className="text-gray-600 dark:text-gray-400">({rule.label})</span>
+              )}
+              {stages.map(({ stage, level }) => (
+                <span key={stage} className={`text-xs font-medium px-2 py-0.5 rounded-full ${levelStyles[level].badge}`}>
+                  {levelStyles[level].label} {stageLabels[stage]}
+                </span>
+              ))}
+            </div>
+            <p className="text-gray-700 dark:text-gray-300 mt-1">{rule.reason}</p>
+            {note && <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{note}</p>}
+            <ul className="mt-1 text-xs space-y-0.5">
+              {rule.references.map(reference => (
+                <li key={reference.title} className="text-gray-500 dark:text-gray-400">
+                  {reference.url ? (
+                    <a
+                      href={reference.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-500 dark:text-blue-400 hover:underline"
+                    >
+                      {reference.title}
+                    </a>
+                  ) : reference.title}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PregnancySafetyBand;
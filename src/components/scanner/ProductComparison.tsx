@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GitCompare, Plus, X, AlertTriangle } from 'lucide-react';
+import { analyzeIngredients } from '../../utils/ingredientAnalyzer';
+import { compareProducts } from '../../utils/productComparison';
+import { ProductComparison as Comparison } from '../../types/comparison';
+import { AnalysisMode } from '../../types/ingredient';
+import { ProductTypeId } from '../../types/productContext';
+import { LabelLanguage } from '../../types/translation';
+import ImageCapture from './ImageCapture';
+import ComparisonResults from './ComparisonResults';
+
+interface ProductComparisonProps {
+  mode: AnalysisMode;
+  productType: ProductTypeId;
+  language: LabelLanguage | 'auto';
+}
+
+interface ProductInput {
+  // Stable across removals so each slot keeps its own ImageCapture state
+  id: number;
+  label: string;
+  ingredients: string;
+}
+
+const MIN_PRODUCTS = 2;
+const MAX_PRODUCTS = 3;
+
+let nextInputId = 0;
+
+const emptyInput = (index: number): ProductInput => ({ id: nextInputId++, label: `Product ${index + 1}`, ingredients: '' });
+
+const ProductComparison: React.FC<ProductComparisonProps> = ({ mode, productType, language }) => {
+  const [inputs, setInputs] = useState<ProductInput[]>(() => [emptyInput(0), emptyInput(1)]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  // Mode the current comparison was produced in, so switching the toggle doesn't relabel it
+  const [resultsMode, setResultsMode] = useState<AnalysisMode>('cosmetic');
+  const [current, setCurrent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const isAnalyzing = current !== null;
+  const canCompare = inputs.every(input => input.ingredients.trim()) && !isAnalyzing;
+
+  const updateInput = (id: number, update: Partial<Omit<ProductInput, 'id'>>) => {
+    setInputs(prev => prev.map(input => (input.id === id ? { ...input, ...update } : input)));
+    setComparison(null);
+    setError(null);
+  };
+
+  const handleTextExtracted = (input: ProductInput, text: string) => {
+    if (!text.trim()) {
+      setError(`No text could be extracted for ${input.label}. Please try again or enter ingredients manually.`);
+      return;
+    }
+    updateInput(input.id, { ingredients: text });
+  };
+
+  const handleCompare = async () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setError(null);
+    setComparison(null);
+    setResultsMode(mode);
+
+    try {
+      const products = [];
+      // One product at a time so lookups aren't multiplied by the number of products
+      for (const input of inputs) {
+        setCurrent(input.label);
+        const ingredients = await analyzeIngredients(input.ingredients, {
+          signal: controller.signal,
+          productType,
+          mode,
+          language
+        });
+        if (ingredients.length === 0) {
+          setError(`No valid ingredients found for ${input.label}. Please check its input and try again.`);
+          return;
+        }
+        products.push({ label: input.label.trim() || 'Untitled', ingredients });
+      }
+      setComparison(compareProducts(products));
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setError('Comparison cancelled.');
+        return;
+      }
+      setError('Failed to analyze ingredients. Please try again.');
+      console.error('Comparison error:', err);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setCurrent(null);
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className={`grid grid-cols-1 gap-4 ${inputs.length > 2 ? 'lg:grid-cols-3' : 'md:grid-cols-2'}`}>
+        {inputs.map((input, index) => (
+          <div key={input.id} className="space-y-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={input.label}
+                onChange={(e) => updateInput(input.id, { label: e.target.value })}
+                aria-label={`Name of product ${index + 1}`}
+                className="flex-grow min-w-0 p-2 border border-gray-300 dark:border-gray-600 rounded-md
+                          bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-medium"
+              />
+              {inputs.length > MIN_PRODUCTS && (
+                <button
+                  onClick={() => {
+                    setInputs(prev => prev.filter(item => item.id !== input.id));
+                    setComparison(null);
+                  }}
+                  disabled={isAnalyzing}
+                  aria-label={`Remove ${input.label}`}
+                  className="text-gray-400 hover:text-red-500 transition-colors"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              )}
+            </div>
+            <ImageCapture onTextExtracted={(text) => handleTextExtracted(input, text)} language={language} />
+            <textarea
+              className="w-full h-32 p-3 border border-gray-300 dark:border-gray-600 rounded-md
+                        bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                        focus:ring-2 focus:ring-green-500 focus:border-transparent
+                        resize-none transition-colors duration-200"
+              placeholder="Paste this product's ingredients here"
+              value={input.ingredients}
+              onChange={(e) => updateInput(input.id, { ingredients: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+
+      {inputs.length < MAX_PRODUCTS && (
+        <button
+          onClick={() => setInputs(prev => [...prev, emptyInput(prev.length)])}
+          disabled={isAnalyzing}
+          className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400 hover:text-green-700 transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          Add another product
+        </button>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-red-500" />
+          <p className="text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={handleCompare}
+          disabled={!canCompare}
+          className={`flex items-center justify-center gap-2 flex-grow py-2 px-4 rounded-md text-white font-medium transition-all duration-200 ${
+            canCompare ? 'bg-green-500 hover:bg-green-600 active:bg-green-700' : 'bg-gray-400 cursor-not-allowed'
+          }`}
+        >
+          <GitCompare className="h-5 w-5" />
+          {isAnalyzing ? `Analyzing ${current}...` : 'Compare Products'}
+        </button>
+        {isAnalyzing && (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="flex items-center gap-1 text-red-500 hover:text-red-600 transition-colors"
+          >
+            <X className="h-4 w-4" />
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {comparison && (
+        <ComparisonResults comparison={comparison} scoreLabel={resultsMode === 'food' ? 'Score' : undefined} />
+      )}
+    </div>
+  );
+};
+
+export default ProductComparison;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Scale } from 'lucide-react';
+import { Jurisdiction, RegulatoryProfile, RegulatoryStatusLevel } from '../../types/regulatory';
+import { describeRegulatoryStatus, getJurisdictionLabel, getRegulatoryStatus } from '../../utils/regulatory';
+
+interface RegulatoryStatusBadgeProps {
+  regulatory?: RegulatoryProfile;
+  jurisdiction: Jurisdiction;
+}
+
+const statusColors: Record<RegulatoryStatusLevel, string> = {
+  banned: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  restricted: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  allowed: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+};
+
+const RegulatoryStatusBadge: React.FC<RegulatoryStatusBadgeProps> = ({ regulatory, jurisdiction }) => {
+  // EU status is the common reference point, so show it next to the user's own jurisdiction
+  const shown: Jurisdiction[] = jurisdiction === 'EU' ? ['EU'] : [jurisdiction, 'EU'];
+  const statuses = shown
+    .map(id => ({ id, status: getRegulatoryStatus(regulatory, id) }))
+    .filter(({ status }) => status !== null);
+
+  if (statuses.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        <Scale className="h-3 w-3 inline mr-1" />
+        No regulatory data for {getJurisdictionLabel(jurisdiction)}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {statuses.map(({ id, status }) => status && (
+        <div key={id} className="flex flex-wrap items-start gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <Scale className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span className="font-medium">{getJurisdictionLabel(id)}:</span>
+          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${statusColors[status.status]}`}>
+            {describeRegulatoryStatus(status)}
+            {status.annex && ` · Annex ${status.annex}`}
+          </span>
+          {status.conditions && <span className="w-full pl-6 text-xs">{status.conditions}</span>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RegulatoryStatusBadge;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Download, FileText, AlertTriangle } from 'lucide-react';
+import { AnalysisReportSource, ReportFormat } from '../../types/report';
+import { createAnalysisReport, downloadReport, openPrintableReport } from '../../utils/analysisReport';
+
+interface ReportExportMenuProps {
+  source: AnalysisReportSource;
+}
+
+const formats: { format: ReportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+const ReportExportMenu: React.FC<ReportExportMenuProps> = ({ source }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: ReportFormat) => {
+    setError(null);
+    const report = createAnalysisReport(source);
+    try {
+      if (format === 'pdf') {
+        openPrintableReport(report);
+      } else {
+        downloadReport(report, format);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the report.');
+      console.error('Report export error:', err);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="flex items-center gap-1 font-medium text-gray-700 dark:text-gray-300">
+        <FileText className="h-4 w-4" />
+        Export report:
+      </span>
+      {formats.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          className="flex items-center gap-1 px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-green-500 hover:text-green-600 transition-colors"
+        >
+          <Download className="h-4 w-4" />
+          {label}
+        </button>
+      ))}
+      {error && (
+        <span className="flex items-center gap-1 text-red-600 dark:text-red-400">
+          <AlertTriangle className="h-4 w-4" />
+          {error}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ReportExportMenu;
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { ListChecks, Lightbulb, X } from 'lucide-react';
+import { ScanRecord } from '../../types/history';
+import { RoutineExposureItem } from '../../types/routine';
+import { useProfile } from '../../contexts/ProfileContext';
+import { getScanDisplayName, listScans } from '../../utils/scanHistory';
+import { analyzeRoutine } from '../../utils/routineExposure';
+
+interface ExposureListProps {
+  title: string;
+  items: RoutineExposureItem[];
+  productNames: Map<string, string>;
+  empty: string;
+}
+
+const ExposureList: React.FC<ExposureListProps> = ({ title, items, productNames, empty }) => (
+  <div className="p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+    <h4 className="font-medium text-gray-800 dark:text-gray-200 mb-1">{title}</h4>
+    {items.length === 0 ? (
+      <p className="text-sm text-gray-500 dark:text-gray-400">{empty}</p>
+    ) : (
+      <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+        {items.map(({ name, productIds }) => (
+          <li key={name}>
+            <span className="font-medium">{name}</span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {' '}· {productIds.map(id => productNames.get(id)).join(', ')}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+// "My Routine": exposure added up across the saved products used together
+const RoutinePanel: React.FC = () => {
+  const { profile, setInRoutine } = useProfile();
+  const [records, setRecords] = useState<ScanRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listScans()
+      .then(setRecords)
+      .catch(err => {
+        setError('Scan history is unavailable in this browser.');
+        console.error('History load error:', err);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading your routine...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+
+  const routine = records.filter(record => profile.routine.includes(record.id));
+  if (routine.length === 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+        <ListChecks className="h-4 w-4" />
+        Add the products you use each day from your scan history to see their combined exposure.
+      </p>
+    );
+  }
+
+  const productNames = new Map(routine.map(record => [record.id, getScanDisplayName(record)]));
+  const exposure = analyzeRoutine(routine.map(record => ({
+    id: record.id,
+    productType: record.productType,
+    ingredients: record.ingredients
+  })));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {routine.map(record => (
+          <span
+            key={record.id}
+            className="flex items-center gap-1 px-3 py-1 rounded-full text-sm bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
+          >
+            {getScanDisplayName(record)}
+            <button
+              onClick={() => setInRoutine(record.id, false)}
+              aria-label={`Remove ${getScanDisplayName(record)} from routine`}
+              className="hover:opacity-75"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {exposure.productCount} product{exposure.productCount === 1 ? '' : 's'}
+        {' · '}{exposure.preservatives.length} distinct preservative{exposure.preservatives.length === 1 ? '' : 's'}
+        {' · '}{exposure.highConcernCount} high-concern occurrence{exposure.highConcernCount === 1 ? '' : 's'}
+        {' · '}routine burden {exposure.burden}
+      </p>
+
+      {exposure.suggestion && (
+        <div className="p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20">
+          <p className="flex items-center gap-2 font-medium text-yellow-800 dark:text-yellow-300">
+            <Lightbulb className="h-5 w-5" />
+            Dropping {productNames.get(exposure.suggestion.productId)} would lower your routine burden the most
+            ({exposure.burden} → {Math.round((exposure.burden - exposure.suggestion.reduction) * 10) / 10})
+          </p>
+          {exposure.suggestion.reasons.length > 0 && (
+            <ul className="mt-1 ml-7 list-disc text-sm text-yellow-800 dark:text-yellow-300">
+              {exposure.suggestion.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ExposureList
+          title="High-concern ingredients"
+          items={exposure.highConcern}
+          productNames={productNames}
+          empty="None across your routine."
+        />
+        <ExposureList
+          title="Repeated fragrance allergens"
+          items={exposure.repeatedFragranceAllergens}
+          productNames={productNames}
+          empty="No fragrance allergen appears in more than one product."
+        />
+        <ExposureList
+          title="Preservatives"
+          items={exposure.preservatives}
+          productNames={productNames}
+          empty="No preservatives found."
+        />
+        <div className="p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+          <h4 className="font-medium text-gray-800 dark:text-gray-200 mb-1">Duplicated actives</h4>
+          {exposure.duplicatedActives.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Each active appears in one product at most.</p>
+          ) : (
+            <ul className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+              {exposure.duplicatedActives.map(({ active, productIds }) => (
+                <li key={active.id}>
+                  <span className="font-medium">{active.label}</span>
+                  <span className="text-gray-500 dark:text-gray-400"> · {productIds.map(id => productNames.get(id)).join(', ')}</span>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{active.note}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Rinse-off products count for half in the routine burden since they spend less time on the skin.
+      </p>
+    </div>
+  );
+};
+
+export default RoutinePanel;
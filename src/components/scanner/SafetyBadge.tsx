@@ -4,9 +4,10 @@ import { AlertTriangle, AlertCircle, CheckCircle } from 'lucide-react';
 interface SafetyBadgeProps {
   safetyLevel: string;
   ewgScore: number;
+  scoreLabel?: string;
 }
 
-const SafetyBadge: React.FC<SafetyBadgeProps> = ({ safetyLevel, ewgScore }) => {
+const SafetyBadge: React.FC<SafetyBadgeProps> = ({ safetyLevel, ewgScore, scoreLabel = 'EWG' }) => {
   let bgColor = '';
   let textColor = '';
   let borderColor = '';
@@ -37,7 +38,7 @@ const SafetyBadge: React.FC<SafetyBadgeProps> = ({ safetyLevel, ewgScore }) => {
     <div className={`flex items-center gap-2 px-3 py-1 rounded-full border ${bgColor} ${borderColor}`}>
       <Icon className={`h-4 w-4 ${textColor}`} />
       <span className={`text-xs font-medium ${textColor}`}>
-        {safetyLevel} (EWG: {ewgScore}/10)
+        {safetyLevel} ({scoreLabel}: {ewgScore}/10)
       </span>
     </div>
   );
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ArrowRight, RefreshCw } from 'lucide-react';
+import { ScanDiff, ScanDiffStatus } from '../../types/history';
+
+interface ScanDiffPanelProps {
+  diff: ScanDiff;
+}
+
+const statusStyles: Record<ScanDiffStatus, { label: string; badge: string }> = {
+  changed: { label: 'Changed', badge: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300' },
+  added: { label: 'New', badge: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' },
+  removed: { label: 'Gone', badge: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300' },
+  unchanged: { label: 'Same', badge: '' },
+};
+
+// Lower scores are better, so a drop is shown in green
+const deltaColor = (previous: number, next: number) =>
+  next < previous ? 'text-green-600 dark:text-green-400' : next > previous ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400';
+
+const ScanDiffPanel: React.FC<ScanDiffPanelProps> = ({ diff }) => {
+  const changes = diff.ingredients.filter(ingredient => ingredient.status !== 'unchanged');
+
+  return (
+    <div className="mt-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-sm">
+      <p className="flex items-center gap-2 font-medium text-gray-800 dark:text-gray-200">
+        <RefreshCw className="h-4 w-4" />
+        Product score {diff.previousScore}
+        <ArrowRight className="h-3 w-3" />
+        <span className={deltaColor(diff.previousScore, diff.score)}>{diff.score}</span>
+      </p>
+      {changes.length === 0 ? (
+        <p className="mt-1 text-gray-600 dark:text-gray-400">No ingredient scores changed with the latest data.</p>
+      ) : (
+        <ul className="mt-2 space-y-1">
+          {changes.map(({ name, status, previousScore, score, previousSafetyLevel, safetyLevel }) => (
+            <li key={`${status}-${name}`} className="flex flex-wrap items-center gap-2 text-gray-700 dark:text-gray-300">
+              <span className={`text-xs px-2 py-0.5 rounded-full ${statusStyles[status].badge}`}>{statusStyles[status].label}</span>
+              <span className="font-medium">{name}</span>
+              {status === 'changed' && previousScore !== undefined && score !== undefined && (
+                <span className={deltaColor(previousScore, score)}>
+                  {previousScore} → {score}
+                  {previousSafetyLevel !== safetyLevel && ` (${previousSafetyLevel} → ${safetyLevel})`}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScanDiffPanel;
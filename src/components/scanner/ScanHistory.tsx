@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { History, Search, RefreshCw, Trash2, FolderOpen, X, Tag, ListChecks } from 'lucide-react';
+import { ScanDiff, ScanRecord } from '../../types/history';
+import { analyzeIngredients } from '../../utils/ingredientAnalyzer';
+import { calculateProductScore } from '../../utils/productScoring';
+import { collectTags, deleteScan, diffScans, getScan, listScans, normalizeTag, searchScans, updateScan } from '../../utils/scanHistory';
+import ScanDiffPanel from './ScanDiffPanel';
+import { useProfile } from '../../contexts/ProfileContext';
+
+interface ScanHistoryProps {
+  onOpen: (record: ScanRecord) => void;
+}
+
+const SUGGESTED_TAGS = ['shampoo', 'skincare', 'sunscreen', 'kids', 'snacks'];
+
+const ScanHistory: React.FC<ScanHistoryProps> = ({ onOpen }) => {
+  const { profile, setInRoutine } = useProfile();
+  const [records, setRecords] = useState<ScanRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  const [reanalyzingId, setReanalyzingId] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, ScanDiff>>({});
+
+  useEffect(() => {
+    listScans()
+      .then(setRecords)
+      .catch(err => {
+        setError('Scan history is unavailable in this browser.');
+        console.error('History load error:', err);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const usedTags = collectTags(records);
+  const allTags = Array.from(new Set([...usedTags, ...SUGGESTED_TAGS])).sort();
+  const visible = searchScans(records, query, selectedTags);
+
+  const saveRecord = async (record: ScanRecord) => {
+    try {
+      await updateScan(record);
+      setRecords(prev => prev.map(item => (item.id === record.id ? record : item)));
+    } catch (err) {
+      setError('Failed to update the scan.');
+      console.error('History update error:', err);
+    }
+  };
+
+  const handleAddTag = (record: ScanRecord, e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeTag(tagDrafts[record.id] ?? '');
+    setTagDrafts(prev => ({ ...prev, [record.id]: '' }));
+    if (!tag || record.tags.includes(tag)) return;
+    saveRecord({ ...record, tags: [...record.tags, tag] });
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteScan(id);
+      setRecords(prev => prev.filter(record => record.id !== id));
+      setInRoutine(id, false);
+    } catch (err) {
+      setError('Failed to delete the scan.');
+      console.error('History delete error:', err);
+    }
+  };
+
+  // Looks every ingredient up again, bypassing the cache, and keeps the new results
+  const handleReanalyze = async (record: ScanRecord) => {
+    setReanalyzingId(record.id);
+    setError(null);
+    try {
+      const ingredients = await analyzeIngredients(record.labelText, {
+        mode: record.mode,
+        productType: record.productType,
+        language: record.language,
+        refresh: true
+      });
+      // The scan may have been renamed, retagged or deleted meanwhile, so only the re-analysis fields are replaced
+      const latest = await getScan(record.id);
+      if (!latest) return;
+      setDiffs(prev => ({ ...prev, [record.id]: diffScans(latest.ingredients, ingredients) }));
+      await saveRecord({
+        ...latest,
+        ingredients,
+        score: calculateProductScore(ingredients).score,
+        reanalyzedAt: Date.now()
+      });
+    } catch (err) {
+      setError('Failed to re-analyze the scan.');
+      console.error('Re-analysis error:', err);
+    } finally {
+      setReanalyzingId(null);
+    }
+  };
+
+  const toggleTag = (tag: string) =>
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(item => item !== tag) : [...prev, tag]));
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading scan history...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by product, ingredient, tag or label text"
+          className="w-full pl-9 p-2 border border-gray-300 dark:border-gray-600 rounded-md
+                    bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                    focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+      </div>
+
+      {usedTags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {usedTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+                selectedTags.includes(tag)
+                  ? 'bg-green-500 border-green-500 text-white'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-green-500'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {records.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <History className="h-4 w-4" />
+          Scans you analyze are saved here on this device.
+        </p>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No scans match your search.</p>
+      ) : (
+        <ul className="space-y-3">
+          {visible.map(record => (
+            <li key={record.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+              <div className="flex gap-3">
+                {record.thumbnail && (
+                  <img src={record.thumbnail} alt="" className="h-16 w-16 object-cover rounded-md flex-shrink-0" />
+                )}
+                <div className="flex-grow min-w-0">
+                  <input
+                    defaultValue={record.productName}
+                    placeholder="Unnamed product"
+                    onBlur={(e) => e.target.value.trim() !== record.productName && saveRecord({ ...record, productName: e.target.value.trim() })}
+                    aria-label="Product name"
+                    className="w-full font-medium bg-transparent text-gray-900 dark:text-white border-b border-transparent focus:border-green-500 focus:outline-none"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(record.createdAt).toLocaleString()}
+                    {' · '}{record.mode === 'food' ? 'Food' : 'Cosmetics'}
+                    {' · '}score {record.score}/10
+                    {record.reanalyzedAt && ` · re-analyzed ${new Date(record.reanalyzedAt).toLocaleDateString()}`}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 truncate">{record.labelText}</p>
+
+                  <div className="flex flex-wrap items-center gap-1 mt-2">
+                    {record.tags.map(tag => (
+                      <span key={tag} className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+                        #{tag}
+                        <button
+                          onClick={() => saveRecord({ ...record, tags: record.tags.filter(item => item !== tag) })}
+                          aria-label={`Remove tag ${tag}`}
+                          className="hover:opacity-75"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                    <form onSubmit={(e) => handleAddTag(record, e)} className="flex items-center gap-1">
+                      <Tag className="h-3 w-3 text-gray-400" />
+                      <input
+                        value={tagDrafts[record.id] ?? ''}
+                        onChange={(e) => setTagDrafts(prev => ({ ...prev, [record.id]: e.target.value }))}
+                        list="scan-history-tags"
+                        placeholder="Add tag"
+                        className="w-24 text-xs bg-transparent text-gray-700 dark:text-gray-300 border-b border-gray-300 dark:border-gray-600 focus:border-green-500 focus:outline-none"
+                      />
+                    </form>
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2 mt-3 text-sm">
+                <button
+                  onClick={() => onOpen(record)}
+                  className="flex items-center gap-1 px-3 py-1 rounded-md bg-green-500 text-white hover:bg-green-600 transition-colors"
+                >
+                  <FolderOpen className="h-4 w-4" />
+                  Open
+                </button>
+                <button
+                  onClick={() => handleReanalyze(record)}
+                  disabled={reanalyzingId !== null}
+                  className="flex items-center gap-1 px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-green-500 hover:text-green-600 transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`h-4 w-4 ${reanalyzingId === record.id ? 'animate-spin' : ''}`} />
+                  {reanalyzingId === record.id ? 'Re-analyzing...' : 'Re-analyze with latest data'}
+                </button>
+                {record.mode === 'cosmetic' && (
+                  <button
+                    onClick={() => setInRoutine(record.id, !profile.routine.includes(record.id))}
+                    className={`flex items-center gap-1 px-3 py-1 rounded-md border transition-colors ${
+                      profile.routine.includes(record.id)
+                        ? 'border-green-500 text-green-600 dark:text-green-400'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-green-500 hover:text-green-600'
+                    }`}
+                  >
+                    <ListChecks className="h-4 w-4" />
+                    {profile.routine.includes(record.id) ? 'In my routine' : 'Add to routine'}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(record.id)}
+                  className="flex items-center gap-1 px-3 py-1 rounded-md text-gray-500 dark:text-gray-400 hover:text-red-500 transition-colors"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </button>
+              </div>
+
+              {diffs[record.id] && <ScanDiffPanel diff={diffs[record.id]} />}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <datalist id="scan-history-tags">
+        {allTags.map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default ScanHistory;
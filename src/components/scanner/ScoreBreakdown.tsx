@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { ProductScore, IngredientContribution } from '../../types/ingredient';
+
+interface ScoreBreakdownProps {
+  productScore: ProductScore;
+}
+
+const describeWeight = ({ weight, weightBasis }: IngredientContribution): string => {
+  switch (weightBasis) {
+    case 'declared':
+      return `${weight}% declared`;
+    case 'position':
+      return `~${Math.round(weight)}% estimated from position`;
+    case 'trace':
+      return 'under 1%, any order';
+  }
+};
+
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ productScore }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const sorted = [...productScore.contributions].sort((a, b) => b.contribution - a.contribution);
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-green-600 dark:hover:text-green-400 transition-colors"
+      >
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        How each ingredient contributed
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {productScore.floorApplied && (
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              The weighted average was {productScore.weightedAverage}, raised to {productScore.score} because the
+              product contains a high-concern ingredient.
+            </p>
+          )}
+          {sorted.map(item => (
+            <div key={item.ingredient.position} className="text-sm">
+              <div className="flex justify-between gap-2 text-gray-700 dark:text-gray-300">
+                <span>
+                  <span className="text-gray-400 mr-1">#{item.ingredient.position}</span>
+                  {item.ingredient.name}
+                  <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">({describeWeight(item)})</span>
+                </span>
+                <span className="font-medium">{(item.share * 100).toFixed(1)}%</span>
+              </div>
+              <div className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-500"
+                  style={{ width: `${Math.min(100, item.share * 100)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreBreakdown;
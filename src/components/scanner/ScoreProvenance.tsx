@@ -0,0 +1,33 @@
+import React from 'react';
+import { HelpCircle } from 'lucide-react';
+import { Ingredient, IngredientSource } from '../../types/ingredient';
+
+type ScoreProvenanceProps = Pick<Ingredient, 'source' | 'confidence' | 'lookedUpAt'>;
+
+const sourceLabels: Record<IngredientSource, string> = {
+  ewg: 'EWG Skin Deep',
+  database: 'NutriNexus ingredient database',
+  heuristic: 'Estimated from the ingredient name',
+};
+
+const ScoreProvenance: React.FC<ScoreProvenanceProps> = ({ source, confidence, lookedUpAt }) => {
+  const percent = Math.round(confidence * 100);
+
+  return (
+    <div className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+      <p>
+        <span className="font-medium">Source:</span> {sourceLabels[source]}
+        {' · '}{percent}% confidence
+        {' · '}{new Date(lookedUpAt).toLocaleDateString()}
+      </p>
+      {source === 'heuristic' && (
+        <p className="flex items-center gap-1 text-yellow-700 dark:text-yellow-300">
+          <HelpCircle className="h-3 w-3 flex-shrink-0" />
+          No reference data found; this score is only a guess.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ScoreProvenance;
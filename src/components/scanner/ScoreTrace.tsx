@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, CheckCircle, Circle } from 'lucide-react';
+import { ScoreTraceKind, ScoreTraceStep } from '../../types/ingredient';
+
+interface ScoreTraceProps {
+  steps: ScoreTraceStep[];
+}
+
+const kindLabels: Record<ScoreTraceKind, string> = {
+  ewg: 'EWG',
+  database: 'Database',
+  additive: 'Additive list',
+  pattern: 'Name rule',
+  fallback: 'Default',
+  context: 'Product type',
+  children: 'Sub-ingredients',
+  translation: 'Translation',
+};
+
+const formatScore = ({ score, scoreDelta }: ScoreTraceStep): string | null => {
+  if (scoreDelta !== undefined) return `${scoreDelta > 0 ? '+' : ''}${scoreDelta}`;
+  if (score !== undefined) return `${score}/10`;
+  return null;
+};
+
+const ScoreTrace: React.FC<ScoreTraceProps> = ({ steps }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-green-600 dark:hover:text-green-400 transition-colors"
+      >
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        Why this score?
+      </button>
+
+      {isOpen && (
+        <ol className="mt-2 space-y-1">
+          {steps.map((step, index) => {
+            const score = formatScore(step);
+            return (
+              <li
+                key={index}
+                className={`flex items-start gap-2 text-sm ${
+                  step.applied ? 'text-gray-700 dark:text-gray-300' : 'text-gray-400 dark:text-gray-500'
+                }`}
+              >
+                {step.applied
+                  ? <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-500" />
+                  : <Circle className="h-4 w-4 mt-0.5 flex-shrink-0" />}
+                <span className="flex-grow">
+                  <span className="font-medium">{kindLabels[step.kind]}:</span> {step.description}
+                </span>
+                {score && <span className="font-medium whitespace-nowrap">{score}</span>}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ScoreTrace;
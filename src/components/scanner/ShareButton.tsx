@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Share2, Check } from 'lucide-react';
+import { SharedAnalysis } from '../../types/share';
+import { createShareUrl } from '../../utils/shareLink';
+
+interface ShareButtonProps {
+  analysis: SharedAnalysis;
+}
+
+// Uses the system share sheet where there is one (e.g. to send over WhatsApp), otherwise copies the link
+const ShareButton: React.FC<ShareButtonProps> = ({ analysis }) => {
+  const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const handleShare = async () => {
+    try {
+      const url = await createShareUrl(analysis);
+      if (navigator.share) {
+        await navigator.share({ title: 'Ingredient analysis', url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setStatus('copied');
+    } catch (err) {
+      // Closing the share sheet rejects with AbortError; that isn't a failure
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      setStatus('failed');
+      console.error('Share error:', err);
+    }
+    setTimeout(() => setStatus('idle'), 2000);
+  };
+
+  return (
+    <button
+      onClick={handleShare}
+      className="flex items-center gap-1 px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:border-green-500 hover:text-green-600 transition-colors"
+    >
+      {status === 'copied' ? <Check className="h-4 w-4" /> : <Share2 className="h-4 w-4" />}
+      {status === 'copied' ? 'Link copied' : status === 'failed' ? "Couldn't share" : 'Share'}
+    </button>
+  );
+};
+
+export default ShareButton;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Droplets } from 'lucide-react';
+import { SkinConcernLevel, SuitabilityLevel, SuitabilityVerdict } from '../../types/skinProfile';
+import { getSkinTypeLabel } from '../../utils/skinSuitability';
+
+interface SkinSuitabilityPanelProps {
+  verdict: SuitabilityVerdict;
+}
+
+const verdictStyles: Record<SuitabilityLevel, { label: string; color: string; bg: string }> = {
+  suitable: { label: 'Suitable', color: 'text-green-600 dark:text-green-400', bg: 'bg-green-50 dark:bg-green-900/20' },
+  caution: { label: 'Use with caution', color: 'text-yellow-600 dark:text-yellow-400', bg: 'bg-yellow-50 dark:bg-yellow-900/20' },
+  unsuitable: { label: 'Not recommended', color: 'text-red-600 dark:text-red-400', bg: 'bg-red-50 dark:bg-red-900/20' },
+};
+
+const concernBadges: Record<SkinConcernLevel, string> = {
+  avoid: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  caution: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+};
+
+const SkinSuitabilityPanel: React.FC<SkinSuitabilityPanelProps> = ({ verdict }) => {
+  if (verdict.skinTypes.length === 0) return null;
+  const style = verdictStyles[verdict.level];
+  const skinText = verdict.skinTypes.map(getSkinTypeLabel).join(', ').toLowerCase();
+
+  return (
+    <div className={`mb-6 p-4 rounded-lg ${style.bg}`}>
+      <div className="flex items-center gap-2 mb-1">
+        <Droplets className={`h-5 w-5 ${style.color}`} />
+        <h3 className={`font-medium ${style.color}`}>
+          For your skin ({skinText}): {style.label}
+        </h3>
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+        Based on comedogenicity and irritancy ratings, separate from the safety score.
+        {verdict.unratedCount > 0 && ` ${verdict.unratedCount} of ${verdict.ratedCount + verdict.unratedCount} ingredients have no rating yet.`}
+      </p>
+      {verdict.concerns.length > 0 && (
+        <ul className="space-y-1">
+          {verdict.concerns.map(({ ingredient, skinType, level, reason }, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${concernBadges[level]}`}>
+                {level === 'avoid' ? 'Avoid' : 'Caution'}
+              </span>
+              <span className="font-medium">{ingredient.name}</span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {reason}{verdict.skinTypes.length > 1 && ` (${getSkinTypeLabel(skinType).toLowerCase()})`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SkinSuitabilityPanel;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Droplets } from 'lucide-react';
+import { useProfile } from '../../contexts/ProfileContext';
+import { skinTypes } from '../../utils/skinSuitability';
+
+const SkinTypeSelector: React.FC = () => {
+  const { profile, setSkinType } = useProfile();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+      <span className="flex items-center gap-2 font-medium mr-1">
+        <Droplets className="h-5 w-5 text-blue-500" />
+        My skin:
+      </span>
+      {skinTypes.map(({ id, label }) => {
+        const selected = profile.skinTypes.includes(id);
+        return (
+          <button
+            key={id}
+            onClick={() => setSkinType(id, !selected)}
+            aria-pressed={selected}
+            className={`px-3 py-1 rounded-full border text-sm transition-colors ${
+              selected
+                ? 'bg-blue-500 border-blue-500 text-white'
+                : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-blue-500 hover:text-blue-600'
+            }`}
+          >
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SkinTypeSelector;
@@ -0,0 +1,127 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { AllergenProfileEntry } from '../types/allergen';
+import { Jurisdiction } from '../types/regulatory';
+import { LifeStage } from '../types/pregnancy';
+import { SkinType } from '../types/skinProfile';
+import { normalizeIngredientName } from '../utils/ingredientDataset';
+
+export interface UserProfile {
+  allergens: AllergenProfileEntry[];
+  jurisdiction: Jurisdiction;
+  lifeStages: LifeStage[];
+  skinTypes: SkinType[];
+  // Saved scan ids that make up "My Routine"
+  routine: string[];
+}
+
+type ProfileContextType = {
+  profile: UserProfile;
+  addAllergen: (entry: AllergenProfileEntry) => void;
+  removeAllergen: (name: string) => void;
+  setJurisdiction: (jurisdiction: Jurisdiction) => void;
+  setLifeStage: (stage: LifeStage, enabled: boolean) => void;
+  setSkinType: (skinType: SkinType, enabled: boolean) => void;
+  setInRoutine: (scanId: string, included: boolean) => void;
+};
+
+const defaultProfile: UserProfile = {
+  allergens: [],
+  jurisdiction: 'IN',
+  lifeStages: [],
+  skinTypes: [],
+  routine: [],
+};
+
+const ProfileContext = createContext<ProfileContextType>({
+  profile: defaultProfile,
+  addAllergen: () => {},
+  removeAllergen: () => {},
+  setJurisdiction: () => {},
+  setLifeStage: () => {},
+  setSkinType: () => {},
+  setInRoutine: () => {},
+});
+
+export const useProfile = () => useContext(ProfileContext);
+
+const loadProfile = (): UserProfile => {
+  if (typeof window === 'undefined') return defaultProfile;
+
+  try {
+    const savedProfile = localStorage.getItem('profile');
+    return savedProfile ? { ...defaultProfile, ...JSON.parse(savedProfile) } : defaultProfile;
+  } catch (error) {
+    console.warn('Ignoring unreadable saved profile:', error);
+    return defaultProfile;
+  }
+};
+
+export const ProfileProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
+  const [profile, setProfile] = useState<UserProfile>(loadProfile);
+
+  useEffect(() => {
+    localStorage.setItem('profile', JSON.stringify(profile));
+  }, [profile]);
+
+  const addAllergen = (entry: AllergenProfileEntry) => {
+    const key = normalizeIngredientName(entry.name);
+    if (!key) return;
+
+    setProfile(prev => ({
+      ...prev,
+      allergens: [
+        ...prev.allergens.filter(existing => normalizeIngredientName(existing.name) !== key),
+        { ...entry, name: entry.name.trim() },
+      ],
+    }));
+  };
+
+  const removeAllergen = (name: string) => {
+    const key = normalizeIngredientName(name);
+    setProfile(prev => ({
+      ...prev,
+      allergens: prev.allergens.filter(existing => normalizeIngredientName(existing.name) !== key),
+    }));
+  };
+
+  const setJurisdiction = (jurisdiction: Jurisdiction) => {
+    setProfile(prev => ({ ...prev, jurisdiction }));
+  };
+
+  const setLifeStage = (stage: LifeStage, enabled: boolean) => {
+    setProfile(prev => ({
+      ...prev,
+      lifeStages: enabled
+        ? Array.from(new Set([...prev.lifeStages, stage]))
+        : prev.lifeStages.filter(existing => existing !== stage),
+    }));
+  };
+
+  const setSkinType = (skinType: SkinType, enabled: boolean) => {
+    setProfile(prev => ({
+      ...prev,
+      skinTypes: enabled
+        ? Array.from(new Set([...prev.skinTypes, skinType]))
+        : prev.skinTypes.filter(existing => existing !== skinType),
+    }));
+  };
+
+  const setInRoutine = (scanId: string, included: boolean) => {
+    setProfile(prev => ({
+      ...prev,
+      routine: included
+        ? Array.from(new Set([...prev.routine, scanId]))
+        : prev.routine.filter(existing => existing !== scanId),
+    }));
+  };
+
+  return (
+    <ProfileContext.Provider
+      value={{ profile, addAllergen, removeAllergen, setJurisdiction, setLifeStage, setSkinType, setInRoutine }}
+    >
+      {children}
+    </ProfileContext.Provider>
+  );
+};
+
+export default ProfileProvider;
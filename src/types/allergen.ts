@@ -0,0 +1,20 @@
+import { Ingredient } from './ingredient';
+
+export type AllergenReaction = 'allergy' | 'sensitivity';
+
+export interface AllergenProfileEntry {
+  name: string;
+  reaction: AllergenReaction;
+}
+
+export interface AllergenGroup {
+  id: string;
+  label: string;
+  members: string[];
+}
+
+export interface AllergenMatch {
+  ingredient: Ingredient;
+  entry: AllergenProfileEntry;
+  matchedOn: string;
+}
@@ -0,0 +1,34 @@
+export interface ClassificationRule {
+  id: string;
+  function: string;
+  commonUse: string;
+  // Higher wins when several rules match; it also orders the function list
+  priority: number;
+  // Whole-token phrases; "*" at either end of a word allows a prefix or suffix ("*paraben", "peg-*")
+  terms: string[];
+  // Any of these phrases vetoes the rule, e.g. "cetyl" keeps cetyl alcohol out of solvents
+  unless?: string[];
+}
+
+export interface ClassificationFixture {
+  name: string;
+  functions: string[];
+}
+
+export interface ClassificationRuleSet {
+  version: string;
+  updatedAt: string;
+  defaults: {
+    function: string;
+    commonUse: string;
+  };
+  rules: ClassificationRule[];
+  // Expected results, checked against the rules by `npm run check:fixtures`
+  fixtures: ClassificationFixture[];
+}
+
+export interface IngredientClassification {
+  functions: string[];
+  commonUse: string;
+  ruleIds: string[];
+}
@@ -0,0 +1,23 @@
+import { Ingredient, ProductScore } from './ingredient';
+
+export interface ComparedProduct {
+  label: string;
+  ingredients: Ingredient[];
+  productScore: ProductScore;
+}
+
+// One ingredient across the compared products; `matches[i]` is its entry in product i
+export interface ComparedIngredient {
+  key: string;
+  name: string;
+  matches: (Ingredient | null)[];
+}
+
+export interface ProductComparison {
+  products: ComparedProduct[];
+  // In two or more products
+  shared: ComparedIngredient[];
+  // `unique[i]` lists what only product i contains
+  unique: ComparedIngredient[][];
+  highConcern: ComparedIngredient[];
+}
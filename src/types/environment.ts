@@ -0,0 +1,49 @@
+export type EnvironmentalCategory = 'reef' | 'microplastic' | 'persistence' | 'aquatic-toxicity' | 'palm';
+
+export interface EnvironmentalRule {
+  id: string;
+  category: EnvironmentalCategory;
+  // Points added to the eco score, 1 (minor) to 5 (severe)
+  impact: number;
+  // Whole-token phrases with optional "*" prefix/suffix wildcards, as in the classification rules
+  terms: string[];
+  unless?: string[];
+  note: string;
+}
+
+export interface EnvironmentalFixture {
+  name: string;
+  ruleIds: string[];
+}
+
+export interface EnvironmentalRuleSet {
+  version: string;
+  updatedAt: string;
+  rules: EnvironmentalRule[];
+  // Expected matches, checked against the rules by `npm run check:fixtures`
+  fixtures: EnvironmentalFixture[];
+}
+
+export interface EnvironmentalFlag {
+  ruleId: string;
+  category: EnvironmentalCategory;
+  impact: number;
+  note: string;
+}
+
+// Reported apart from the hazard-based safetyLevel
+export interface EnvironmentalProfile {
+  flags: EnvironmentalFlag[];
+  // The worst flag's impact; 0 when nothing was flagged
+  impact: number;
+}
+
+export type EcoLevel = 'none' | 'low' | 'moderate' | 'high';
+
+export interface EcoScore {
+  // 0 (no flags) to 10 (heavy environmental impact)
+  score: number;
+  level: EcoLevel;
+  flagged: { name: string; flags: EnvironmentalFlag[] }[];
+  categories: EnvironmentalCategory[];
+}
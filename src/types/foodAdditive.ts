@@ -0,0 +1,35 @@
+export type FssaiStatus = 'permitted' | 'restricted' | 'not-permitted';
+
+export interface AcceptableDailyIntake {
+  // mg per kg body weight per day; null when JECFA set no numerical limit ("not specified")
+  maxMgPerKg: number | null;
+  source: string;
+}
+
+export interface FoodAdditiveRecord {
+  ins: string;
+  name: string;
+  synonyms: string[];
+  functionalClasses: string[];
+  score: number;
+  concerns: string[];
+  adi: AcceptableDailyIntake;
+  fssai: {
+    status: FssaiStatus;
+    notes?: string;
+  };
+}
+
+export interface FoodAdditiveDataset {
+  version: string;
+  updatedAt: string;
+  additives: FoodAdditiveRecord[];
+}
+
+export interface FoodAdditiveInfo {
+  ins: string;
+  eNumber: string;
+  functionalClasses: string[];
+  adi: AcceptableDailyIntake;
+  fssai: FoodAdditiveRecord['fssai'];
+}
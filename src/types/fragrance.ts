@@ -0,0 +1,44 @@
+import { Ingredient } from './ingredient';
+import { AllergenMatch } from './allergen';
+
+// "2003" is the original list of 26, "2023" the additions from Regulation (EU) 2023/1545
+export type FragranceAllergenList = '2003' | '2023';
+
+export interface FragranceAllergen {
+  id: string;
+  name: string;
+  list: FragranceAllergenList;
+  // Whole-token phrases with optional "*" prefix/suffix wildcards, as in the classification rules
+  terms: string[];
+  unless?: string[];
+}
+
+export interface FragranceAllergenData {
+  version: string;
+  updatedAt: string;
+  source: string;
+  // Label names for an undeclared fragrance blend
+  fragranceTerms: string[];
+  allergens: FragranceAllergen[];
+}
+
+export type FragranceAllergenRef = Pick<FragranceAllergen, 'id' | 'name' | 'list'>;
+
+export interface FragranceAllergenHit {
+  ingredient: Ingredient;
+  allergen: FragranceAllergenRef;
+  // Set when the user's allergen profile already covers this ingredient
+  profileMatch?: AllergenMatch;
+}
+
+export interface FragranceAllergenReport {
+  // A parfum/fragrance/aroma entry is on the label
+  hasFragrance: boolean;
+  hits: FragranceAllergenHit[];
+  // Fragrance is declared but none of the regulated allergens are named
+  undisclosed: boolean;
+  // Number of distinct declarable allergens in the product
+  load: number;
+  // Profile entries that cover the fragrance blend itself, e.g. "Fragrance mix"
+  fragranceProfileMatches: AllergenMatch[];
+}
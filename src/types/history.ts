@@ -0,0 +1,42 @@
+import { AnalysisMode, Ingredient } from './ingredient';
+import { ProductTypeId } from './productContext';
+import { LabelLanguage } from './translation';
+
+export interface ScanRecord {
+  id: string;
+  createdAt: number;
+  // Set each time the scan is re-analyzed with the latest data
+  reanalyzedAt?: number;
+  productName: string;
+  tags: string[];
+  // OCR output before cleaning; only for scans that started from a photo
+  rawText?: string;
+  // The ingredient list that was analyzed
+  labelText: string;
+  // Downscaled JPEG data URL of the label photo
+  thumbnail?: string;
+  mode: AnalysisMode;
+  productType?: ProductTypeId;
+  language: LabelLanguage | 'auto';
+  ingredients: Ingredient[];
+  score: number;
+}
+
+export type ScanDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface IngredientScoreDiff {
+  name: string;
+  status: ScanDiffStatus;
+  previousScore?: number;
+  score?: number;
+  previousSafetyLevel?: string;
+  safetyLevel?: string;
+}
+
+export interface ScanDiff {
+  previousScore: number;
+  score: number;
+  // Every ingredient, changed ones first
+  ingredients: IngredientScoreDiff[];
+  changedCount: number;
+}
@@ -1,13 +1,119 @@
+import { RegulatoryProfile } from './regulatory';
+import { ContextAdjustment, ProductTypeId } from './productContext';
+import { FoodAdditiveInfo } from './foodAdditive';
+import { IngredientTranslation, LabelLanguage } from './translation';
+import { SkinRatings } from './ingredientDataset';
+import { OriginClassification } from './origin';
+import { EnvironmentalProfile } from './environment';
+import { FragranceAllergenRef } from './fragrance';
+
+export type IngredientSource = 'ewg' | 'database' | 'heuristic';
+
 export interface Ingredient {
   name: string;
+  canonicalName?: string;
+  position: number;
+  concentration?: number;
+  // Primary function; `functions` lists every function that applies, primary first
   function: string;
+  functions: string[];
   ewgScore: number;
   safetyLevel: string;
-  reasonForConcern: string;
+  concerns: string[];
   commonUse: string;
   scientificName?: string;
-  benefits?: string;
-  restrictions?: string;
-  naturalAlternatives?: string;
-  researchLinks?: string;
-}
\ No newline at end of file
+  benefits: string[];
+  restrictions: string[];
+  naturalAlternatives: string[];
+  researchLinks: string[];
+  // Where the score came from, how far it can be trusted (0-1) and when it was looked up
+  source: IngredientSource;
+  confidence: number;
+  lookedUpAt: number;
+  scoreTrace: ScoreTraceStep[];
+  regulatory?: RegulatoryProfile;
+  // Only known for dataset entries
+  skin?: SkinRatings;
+  origin: OriginClassification;
+  // Environmental flags, kept apart from the hazard-based safetyLevel
+  environmental: EnvironmentalProfile;
+  // Set for EU-declarable fragrance allergens (cosmetic ingredients only)
+  fragranceAllergen?: FragranceAllergenRef;
+  contextAdjustments?: ContextAdjustment[];
+  cache?: IngredientCacheInfo;
+  additive?: FoodAdditiveInfo;
+  // Only present in some variants ("may contain" / "+/-" lists); left out of the product score
+  mayContain?: boolean;
+  children?: Ingredient[];
+  // Set when the label name was translated to INCI before lookup
+  translatedFrom?: IngredientTranslation;
+}
+
+export type ScoreTraceKind = 'ewg' | 'database' | 'additive' | 'pattern' | 'fallback' | 'context' | 'children' | 'translation';
+
+// One step the analyzer took while scoring an ingredient, in the order it was considered
+export interface ScoreTraceStep {
+  kind: ScoreTraceKind;
+  // false when the step was checked but didn't set or change the score
+  applied: boolean;
+  description: string;
+  score?: number;
+  scoreDelta?: number;
+}
+
+// What an EWG lookup yields; this is also the shape stored in the lookup cache
+export interface EWGLookupData {
+  score: number;
+  concerns: string[];
+  function?: string;
+  commonUse?: string;
+}
+
+export interface IngredientCacheInfo {
+  hit: boolean;
+  stale: boolean;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+export interface AnalysisProgress {
+  index: number;
+  ingredient: Ingredient;
+  completed: number;
+  total: number;
+}
+
+export type AnalysisMode = 'cosmetic' | 'food';
+
+export interface AnalyzeOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+  cacheTtl?: number;
+  useCache?: boolean;
+  // Bypass fresh cache entries, e.g. to re-analyze a saved scan with the latest data
+  refresh?: boolean;
+  productType?: ProductTypeId;
+  mode?: AnalysisMode;
+  // Label language; 'auto' detects it from the text
+  language?: LabelLanguage | 'auto';
+}
+
+export type WeightBasis = 'declared' | 'position' | 'trace';
+
+export interface IngredientContribution {
+  ingredient: Ingredient;
+  weight: number;
+  weightBasis: WeightBasis;
+  contribution: number;
+  share: number;
+}
+
+export type OverallSafetyLevel = 'Safe' | 'Moderately Safe' | 'Use with Caution' | 'Potentially Unsafe';
+
+export interface ProductScore {
+  score: number;
+  weightedAverage: number;
+  floorApplied: boolean;
+  contributions: IngredientContribution[];
+}
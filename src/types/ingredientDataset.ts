@@ -0,0 +1,53 @@
+import { RegulatoryProfile } from './regulatory';
+
+export interface IngredientHazard {
+  baseScore: number;
+  concerns: string[];
+}
+
+// Fulton-style 0-5 ratings: how likely the ingredient is to clog pores or irritate skin
+export interface SkinRatings {
+  comedogenicity: number;
+  irritancy: number;
+}
+
+export interface IngredientProvenance {
+  source: string;
+  reviewedAt: string;
+  reviewedBy?: string;
+  notes?: string;
+}
+
+export interface IngredientRecord {
+  id: string;
+  inciName: string;
+  casNumbers: string[];
+  ecNumbers: string[];
+  synonyms: string[];
+  abbreviations?: string[];
+  category: string;
+  hazard: IngredientHazard;
+  skin?: SkinRatings;
+  benefits: string[];
+  scientificName?: string;
+  restrictions?: string[];
+  naturalAlternatives?: string[];
+  researchLinks?: string[];
+  regulatory?: RegulatoryProfile;
+  provenance: IngredientProvenance;
+}
+
+export interface IngredientDataset {
+  schemaVersion: number;
+  version: string;
+  updatedAt: string;
+  entries: IngredientRecord[];
+}
+
+export type IngredientMatchType = 'id' | 'inci' | 'synonym' | 'abbreviation' | 'cas' | 'fuzzy';
+
+export interface IngredientResolution {
+  record: IngredientRecord;
+  matchedAlias: string;
+  matchType: IngredientMatchType;
+}
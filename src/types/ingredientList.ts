@@ -0,0 +1,12 @@
+export interface IngredientListNode {
+  name: string;
+  concentration?: number;
+  // Declared sub-ingredients, e.g. "Limonene" and "Linalool" in "Fragrance (Limonene, Linalool)"
+  children: IngredientListNode[];
+}
+
+export interface ParsedIngredientList {
+  ingredients: IngredientListNode[];
+  // "May contain" / "+/-" shade colorants that are only present in some variants
+  mayContain: IngredientListNode[];
+}
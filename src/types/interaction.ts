@@ -0,0 +1,27 @@
+import { Ingredient } from './ingredient';
+
+export type InteractionSeverity = 'high' | 'moderate' | 'low';
+
+export interface InteractionCondition {
+  group: string;
+  minCount: number;
+}
+
+export interface InteractionRule {
+  id: string;
+  title: string;
+  severity: InteractionSeverity;
+  explanation: string;
+  conditions: InteractionCondition[];
+}
+
+export interface InteractionRuleSet {
+  version: string;
+  groups: Record<string, string[]>;
+  rules: InteractionRule[];
+}
+
+export interface InteractionFinding {
+  rule: InteractionRule;
+  ingredients: Ingredient[];
+}
@@ -0,0 +1,52 @@
+import { Ingredient } from './ingredient';
+
+export type IngredientOrigin = 'plant' | 'synthetic' | 'mineral' | 'animal' | 'possibly-animal' | 'unknown';
+
+export type HalalConcern = 'not-halal' | 'doubtful';
+
+export interface OriginRule {
+  id: string;
+  origin: IngredientOrigin;
+  // Higher wins when several rules match
+  priority: number;
+  // Whole-token phrases with optional "*" prefix/suffix wildcards, as in the classification rules
+  terms: string[];
+  unless?: string[];
+  halal?: HalalConcern;
+  note: string;
+}
+
+export interface OriginFixture {
+  name: string;
+  origin: IngredientOrigin;
+}
+
+export interface OriginRuleSet {
+  version: string;
+  updatedAt: string;
+  rules: OriginRule[];
+  // Expected results, checked against the rules by `npm run check:fixtures`
+  fixtures: OriginFixture[];
+}
+
+export interface OriginClassification {
+  origin: IngredientOrigin;
+  ruleId?: string;
+  note?: string;
+  halal?: HalalConcern;
+}
+
+export type CompatibilityStatus = 'compatible' | 'uncertain' | 'incompatible';
+
+export interface CompatibilityVerdict {
+  status: CompatibilityStatus;
+  offending: Ingredient[];
+  uncertain: Ingredient[];
+}
+
+export interface DietaryCompatibility {
+  vegan: CompatibilityVerdict;
+  halal: CompatibilityVerdict;
+  // Ingredients no origin rule recognized; they don't affect either verdict
+  unclassified: Ingredient[];
+}
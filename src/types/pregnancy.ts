@@ -0,0 +1,33 @@
+import { Ingredient } from './ingredient';
+
+export type LifeStage = 'pregnancy' | 'breastfeeding';
+
+export type PregnancyFlagLevel = 'avoid' | 'caution';
+
+export interface PregnancyReference {
+  title: string;
+  url?: string;
+}
+
+export interface PregnancyRule {
+  id: string;
+  label: string;
+  members: string[];
+  stages: Partial<Record<LifeStage, PregnancyFlagLevel>>;
+  // Only flagged above this declared percentage; undeclared amounts are flagged as caution
+  minConcentration?: number;
+  reason: string;
+  references: PregnancyReference[];
+}
+
+export interface PregnancyDataset {
+  version: string;
+  rules: PregnancyRule[];
+}
+
+export interface PregnancyFlag {
+  ingredient: Ingredient;
+  rule: PregnancyRule;
+  stages: { stage: LifeStage; level: PregnancyFlagLevel }[];
+  note?: string;
+}
@@ -0,0 +1,46 @@
+export type ProductTypeId = 'leave-on' | 'rinse-off' | 'baby' | 'sunscreen' | 'lip' | 'spray' | 'powder';
+
+export type Exposure = 'leave-on' | 'rinse-off';
+
+export interface SafetyThresholds {
+  low: number;
+  moderate: number;
+}
+
+export interface ProductType {
+  id: ProductTypeId;
+  label: string;
+  description: string;
+  exposure: Exposure;
+  inhalation: boolean;
+  ingestion: boolean;
+  sensitivePopulation: boolean;
+  thresholds: SafetyThresholds;
+}
+
+export interface ContextRuleMatch {
+  ids?: string[];
+  categories?: string[];
+  minScore?: number;
+}
+
+export interface ContextRuleCondition {
+  exposure?: Exposure;
+  inhalation?: boolean;
+  ingestion?: boolean;
+  sensitivePopulation?: boolean;
+}
+
+export interface ContextRule {
+  id: string;
+  match: ContextRuleMatch;
+  when: ContextRuleCondition;
+  scoreDelta: number;
+  note: string;
+}
+
+export interface ContextAdjustment {
+  ruleId: string;
+  scoreDelta: number;
+  note: string;
+}
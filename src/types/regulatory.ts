@@ -0,0 +1,13 @@
+export type Jurisdiction = 'EU' | 'US' | 'IN' | 'ASEAN' | 'JP';
+
+export type RegulatoryStatusLevel = 'banned' | 'restricted' | 'allowed';
+
+export interface RegulatoryStatus {
+  status: RegulatoryStatusLevel;
+  maxConcentration?: number;
+  annex?: string;
+  conditions?: string;
+  reference?: string;
+}
+
+export type RegulatoryProfile = Partial<Record<Jurisdiction, RegulatoryStatus>>;
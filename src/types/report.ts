@@ -0,0 +1,41 @@
+import { AnalysisMode, Ingredient, OverallSafetyLevel } from './ingredient';
+import { ProductTypeId } from './productContext';
+import { EcoLevel } from './environment';
+
+export type ReportFormat = 'pdf' | 'csv' | 'json';
+
+export interface AnalysisReport {
+  schema: 'nutrinexus/analysis-report';
+  // Bumped when the report changes shape; see parseAnalysisReport
+  schemaVersion: number;
+  // ISO 8601 timestamps
+  analyzedAt: string;
+  exportedAt: string;
+  mode: AnalysisMode;
+  // Cosmetic analyses only
+  productType?: ProductTypeId;
+  // The ingredient list as it was entered or read from the photo
+  labelText: string;
+  // Small JPEG data URL of the scanned label, when the list came from a photo
+  thumbnail?: string;
+  summary: {
+    score: number;
+    weightedAverage: number;
+    floorApplied: boolean;
+    safetyLevel: OverallSafetyLevel;
+    ecoScore: number;
+    ecoLevel: EcoLevel;
+  };
+  // Full analyzed ingredients in label order, sub-ingredients nested under `children`
+  ingredients: Ingredient[];
+}
+
+// Everything a report is built from besides the ingredients themselves
+export interface AnalysisReportSource {
+  ingredients: Ingredient[];
+  mode: AnalysisMode;
+  productType?: ProductTypeId;
+  labelText: string;
+  thumbnail?: string;
+  analyzedAt: number;
+}
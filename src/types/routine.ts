@@ -0,0 +1,62 @@
+import { Ingredient } from './ingredient';
+import { ProductTypeId } from './productContext';
+
+export interface ActiveClass {
+  id: string;
+  label: string;
+  // Whole-token phrases with optional "*" prefix/suffix wildcards, as in the classification rules
+  terms: string[];
+  unless?: string[];
+  // Terms also used in small amounts to adjust pH; these only count at a declared
+  // concentration of at least `minConcentration` percent
+  phAdjusters?: {
+    terms: string[];
+    minConcentration: number;
+  };
+  note: string;
+}
+
+export interface ActiveClassData {
+  version: string;
+  updatedAt: string;
+  actives: ActiveClass[];
+}
+
+export interface RoutineProduct {
+  id: string;
+  productType?: ProductTypeId;
+  ingredients: Ingredient[];
+}
+
+// One ingredient (or fragrance allergen) and the routine products that contain it
+export interface RoutineExposureItem {
+  name: string;
+  productIds: string[];
+}
+
+export interface DuplicatedActive {
+  active: Pick<ActiveClass, 'id' | 'label' | 'note'>;
+  productIds: string[];
+}
+
+export interface RoutineRemovalSuggestion {
+  productId: string;
+  // How much the routine burden drops without this product
+  reduction: number;
+  reasons: string[];
+}
+
+export interface RoutineExposure {
+  productCount: number;
+  // Distinct preservatives across the routine
+  preservatives: RoutineExposureItem[];
+  // Fragrance allergens found in two or more products
+  repeatedFragranceAllergens: RoutineExposureItem[];
+  highConcern: RoutineExposureItem[];
+  // Every high-concern occurrence, counting repeats across products
+  highConcernCount: number;
+  duplicatedActives: DuplicatedActive[];
+  // Weighted total of the above; lower is better
+  burden: number;
+  suggestion: RoutineRemovalSuggestion | null;
+}
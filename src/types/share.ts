@@ -0,0 +1,12 @@
+import { AnalysisMode } from './ingredient';
+import { ProductTypeId } from './productContext';
+import { LabelLanguage } from './translation';
+
+// Everything needed to re-run an analysis from a share link
+export interface SharedAnalysis {
+  labelText: string;
+  mode: AnalysisMode;
+  // Cosmetic analyses only
+  productType?: ProductTypeId;
+  language: LabelLanguage | 'auto';
+}
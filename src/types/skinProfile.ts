@@ -0,0 +1,49 @@
+import { Ingredient } from './ingredient';
+
+export type SkinType = 'oily' | 'acne-prone' | 'dry' | 'sensitive' | 'rosacea';
+
+export type SkinConcernLevel = 'caution' | 'avoid';
+
+export type SkinRatingKind = 'comedogenicity' | 'irritancy';
+
+// Ratings at or above `caution` / `avoid` raise a concern of that level
+export interface SkinRatingThreshold {
+  caution: number;
+  avoid: number;
+}
+
+export interface SkinTermRule {
+  terms: string[];
+  level: SkinConcernLevel;
+  reason: string;
+}
+
+export interface SkinTypeRule {
+  id: SkinType;
+  label: string;
+  thresholds: Partial<Record<SkinRatingKind, SkinRatingThreshold>>;
+  terms: SkinTermRule[];
+}
+
+export interface SkinTypeDataset {
+  version: string;
+  skinTypes: SkinTypeRule[];
+}
+
+export interface SkinConcern {
+  ingredient: Ingredient;
+  skinType: SkinType;
+  level: SkinConcernLevel;
+  reason: string;
+}
+
+export type SuitabilityLevel = 'suitable' | 'caution' | 'unsuitable';
+
+export interface SuitabilityVerdict {
+  level: SuitabilityLevel;
+  skinTypes: SkinType[];
+  concerns: SkinConcern[];
+  // Listed ingredients with no comedogenicity or irritancy data, so the verdict can't speak for them
+  unratedCount: number;
+  ratedCount: number;
+}
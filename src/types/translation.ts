@@ -0,0 +1,29 @@
+export type LabelLanguage = 'en' | 'fr' | 'de' | 'es' | 'hi';
+
+export interface LanguageDictionary {
+  label: string;
+  // Words that only appear on labels in this language, e.g. "inhaltsstoffe"
+  markers: string[];
+  // Localized common name -> INCI name
+  terms: Record<string, string>;
+}
+
+export interface TranslationDataset {
+  version: string;
+  updatedAt: string;
+  // Dictionary terms also written on English labels ("perfume", "vaseline"); they
+  // still translate but are no evidence of the language
+  englishWords: string[];
+  languages: Partial<Record<LabelLanguage, LanguageDictionary>>;
+}
+
+export interface LanguageDetection {
+  language: LabelLanguage;
+  // Marker and dictionary hits that decided it; 0 means nothing pointed away from English
+  evidence: number;
+}
+
+export interface IngredientTranslation {
+  language: LabelLanguage;
+  original: string;
+}
@@ -0,0 +1,73 @@
+import { Ingredient } from '../types/ingredient';
+import { AllergenGroup, AllergenMatch, AllergenProfileEntry } from '../types/allergen';
+import { normalizeIngredientName } from './ingredientDataset';
+import { resolveIngredient } from './ingredientCanonicalizer';
+import { containsPhrase } from './textMatching';
+import { flattenIngredients } from './ingredientTree';
+import allergenGroupData from '../data/allergenGroups.json';
+
+export const allergenGroups: AllergenGroup[] = allergenGroupData.groups;
+
+export const findAllergenGroup = (name: string): AllergenGroup | null => {
+  const normalized = normalizeIngredientName(name);
+  return allergenGroups.find(group =>
+    group.id === normalized || normalizeIngredientName(group.label) === normalized
+  ) ?? null;
+};
+
+const matchEntry = (ingredient: Ingredient, entry: AllergenProfileEntry): string | null => {
+  const term = normalizeIngredientName(entry.name);
+  if (!term) return null;
+
+  const names = [ingredient.name, ingredient.canonicalName]
+    .filter((name): name is string => Boolean(name))
+    .map(normalizeIngredientName);
+
+  // Same canonical dataset entry, e.g. "tocopherol" in the profile vs "Vitamin E" on the label
+  const termRecord = resolveIngredient(term)?.record;
+  const ingredientRecord = resolveIngredient(ingredient.canonicalName ?? ingredient.name)?.record;
+  if (termRecord && ingredientRecord && termRecord.id === ingredientRecord.id) {
+    return ingredientRecord.inciName;
+  }
+
+  const group = findAllergenGroup(term);
+  const phrases = group ? [term, ...group.members.map(normalizeIngredientName)] : [term];
+
+  for (const phrase of phrases) {
+    if (names.some(name => containsPhrase(name, phrase))) {
+      return phrase;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Checks analyzed ingredients against a personal allergen profile. Profile
+ * entries match through dataset synonyms, known allergen groups (e.g.
+ * "fragrance mix" covers limonene and linalool) and whole-word containment
+ * ("nickel" matches "nickel sulfate"). Sub-ingredients and "may contain"
+ * items are checked too.
+ */
+export const findAllergenMatches = (
+  ingredients: Ingredient[],
+  allergens: AllergenProfileEntry[]
+): AllergenMatch[] => {
+  const matches: AllergenMatch[] = [];
+  // Report the stronger reaction when an ingredient hits several entries
+  const ordered = [...allergens].sort((a, b) =>
+    a.reaction === b.reaction ? 0 : a.reaction === 'allergy' ? -1 : 1
+  );
+
+  flattenIngredients(ingredients).forEach(ingredient => {
+    for (const entry of ordered) {
+      const matchedOn = matchEntry(ingredient, entry);
+      if (matchedOn) {
+        matches.push({ ingredient, entry, matchedOn });
+        break;
+      }
+    }
+  });
+
+  return matches;
+};
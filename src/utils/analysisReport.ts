@@ -0,0 +1,476 @@
+import { Ingredient } from '../types/ingredient';
+import { AnalysisReport, AnalysisReportSource, ReportFormat } from '../types/report';
+import { calculateProductScore, getOverallSafetyLevel } from './productScoring';
+import { calculateEcoScore, environmentalCategoryLabels } from './environmentalImpact';
+import { getProductType, productTypes } from './productContext';
+import { originLabels } from './ingredientOrigin';
+import { labelLanguages } from './ingredientTranslation';
+import { isJurisdiction, regulatoryStatusLevels } from './regulatory';
+
+const REPORT_SCHEMA = 'nutrinexus/analysis-report';
+const REPORT_VERSION = 1;
+
+const MIME_TYPES: Record<Exclude<ReportFormat, 'pdf'>, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+};
+
+export const createAnalysisReport = ({
+  ingredients,
+  mode,
+  productType,
+  labelText,
+  thumbnail,
+  analyzedAt
+}: AnalysisReportSource): AnalysisReport => {
+  const productScore = calculateProductScore(ingredients);
+  const ecoScore = calculateEcoScore(ingredients);
+
+  return {
+    schema: REPORT_SCHEMA,
+    schemaVersion: REPORT_VERSION,
+    analyzedAt: new Date(analyzedAt).toISOString(),
+    exportedAt: new Date().toISOString(),
+    mode,
+    productType: mode === 'cosmetic' ? productType : undefined,
+    labelText,
+    thumbnail,
+    summary: {
+      score: productScore.score,
+      weightedAverage: productScore.weightedAverage,
+      floorApplied: productScore.floorApplied,
+      safetyLevel: getOverallSafetyLevel(productScore.score),
+      ecoScore: ecoScore.score,
+      ecoLevel: ecoScore.level
+    },
+    ingredients
+  };
+};
+
+export const getReportFileName = (report: AnalysisReport, format: ReportFormat): string =>
+  `nutrinexus-report-${report.analyzedAt.slice(0, 16).replace(/:/g, '-')}.${format}`;
+
+export const reportToJson = (report: AnalysisReport): string => JSON.stringify(report, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isOneOf = <T extends string>(options: readonly T[]) => (value: unknown): value is T =>
+  isString(value) && (options as readonly string[]).includes(value);
+
+// Research links are rendered as anchors, so anything but a web URL (e.g. javascript:) is refused
+const isWebUrl = (value: unknown): value is string => {
+  if (!isString(value)) return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const SOURCES = ['ewg', 'database', 'heuristic'] as const;
+const TRACE_KINDS = ['ewg', 'database', 'additive', 'pattern', 'fallback', 'context', 'children', 'translation'] as const;
+const SAFETY_LEVELS = ['Safe', 'Moderately Safe', 'Use with Caution', 'Potentially Unsafe'] as const;
+const ECO_LEVELS = ['none', 'low', 'moderate', 'high'] as const;
+const HALAL_CONCERNS = ['not-halal', 'doubtful'] as const;
+const FSSAI_STATUSES = ['permitted', 'restricted', 'not-permitted'] as const;
+const FRAGRANCE_LISTS = ['2003', '2023'] as const;
+const ORIGINS = Object.keys(originLabels);
+const ENVIRONMENTAL_CATEGORIES = Object.keys(environmentalCategoryLabels);
+const LANGUAGES = labelLanguages.map(({ id }) => id);
+const PRODUCT_TYPES = productTypes.map(({ id }) => id);
+
+type FieldCheck = (value: unknown) => boolean;
+
+/**
+ * Checks `fields` of a record at `path`, pushing one error per problem.
+ * Optional fields may be missing; `check` may return false for a nested
+ * record after pushing its own, more specific errors.
+ */
+const checkFields = (
+  value: unknown,
+  path: string,
+  errors: string[],
+  fields: Record<string, { check: FieldCheck; expected: string; optional?: boolean }>
+): boolean => {
+  if (!isRecord(value)) {
+    errors.push(`${path}: must be an object`);
+    return false;
+  }
+  const before = errors.length;
+  Object.entries(fields).forEach(([key, { check, expected, optional }]) => {
+    if (value[key] === undefined && optional) return;
+    if (!check(value[key])) errors.push(`${path}.${key}: must be ${expected}`);
+  });
+  return errors.length === before;
+};
+
+const checkArray = (value: unknown, path: string, errors: string[], checkItem: (item: unknown, itemPath: string) => void) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: must be an array`);
+    return;
+  }
+  value.forEach((item, index) => checkItem(item, `${path}[${index}]`));
+};
+
+const isStringArray = (value: unknown): boolean => Array.isArray(value) && value.every(isString);
+
+const validateReportIngredient = (value: unknown, path: string, errors: string[]) => {
+  if (!checkFields(value, path, errors, {
+    name: { check: isString, expected: 'a string' },
+    canonicalName: { optional: true, check: isString, expected: 'a string' },
+    position: { check: isNumber, expected: 'a number' },
+    concentration: { optional: true, check: isNumber, expected: 'a number' },
+    function: { check: isString, expected: 'a string' },
+    functions: { check: isStringArray, expected: 'a list of strings' },
+    ewgScore: { check: isNumber, expected: 'a number' },
+    safetyLevel: { check: isString, expected: 'a string' },
+    concerns: { check: isStringArray, expected: 'a list of strings' },
+    commonUse: { check: isString, expected: 'a string' },
+    scientificName: { optional: true, check: isString, expected: 'a string' },
+    benefits: { check: isStringArray, expected: 'a list of strings' },
+    restrictions: { check: isStringArray, expected: 'a list of strings' },
+    naturalAlternatives: { check: isStringArray, expected: 'a list of strings' },
+    researchLinks: {
+      check: links => Array.isArray(links) && links.every(isWebUrl),
+      expected: 'a list of http(s) URLs'
+    },
+    source: { check: isOneOf(SOURCES), expected: `one of ${SOURCES.join(', ')}` },
+    confidence: { check: isNumber, expected: 'a number' },
+    lookedUpAt: { check: isNumber, expected: 'a number' },
+    mayContain: { optional: true, check: isBoolean, expected: 'a boolean' }
+  })) return;
+
+  const ingredient = value as Record<string, unknown>;
+
+  checkArray(ingredient.scoreTrace, `${path}.scoreTrace`, errors, (step, stepPath) => checkFields(step, stepPath, errors, {
+    kind: { check: isOneOf(TRACE_KINDS), expected: `one of ${TRACE_KINDS.join(', ')}` },
+    applied: { check: isBoolean, expected: 'a boolean' },
+    description: { check: isString, expected: 'a string' },
+    score: { optional: true, check: isNumber, expected: 'a number' },
+    scoreDelta: { optional: true, check: isNumber, expected: 'a number' }
+  }));
+
+  checkFields(ingredient.origin, `${path}.origin`, errors, {
+    origin: { check: isOneOf(ORIGINS), expected: `one of ${ORIGINS.join(', ')}` },
+    ruleId: { optional: true, check: isString, expected: 'a string' },
+    note: { optional: true, check: isString, expected: 'a string' },
+    halal: { optional: true, check: isOneOf(HALAL_CONCERNS), expected: `one of ${HALAL_CONCERNS.join(', ')}` }
+  });
+
+  if (checkFields(ingredient.environmental, `${path}.environmental`, errors, {
+    impact: { check: isNumber, expected: 'a number' },
+    flags: { check: Array.isArray, expected: 'an array' }
+  })) {
+    const { flags } = ingredient.environmental as { flags: unknown[] };
+    flags.forEach((flag, index) => checkFields(flag, `${path}.environmental.flags[${index}]`, errors, {
+      ruleId: { check: isString, expected: 'a string' },
+      category: { check: isOneOf(ENVIRONMENTAL_CATEGORIES), expected: `one of ${ENVIRONMENTAL_CATEGORIES.join(', ')}` },
+      impact: { check: isNumber, expected: 'a number' },
+      note: { check: isString, expected: 'a string' }
+    }));
+  }
+
+  if (ingredient.regulatory !== undefined) {
+    if (!isRecord(ingredient.regulatory)) {
+      errors.push(`${path}.regulatory: must be an object`);
+    } else {
+      Object.entries(ingredient.regulatory).forEach(([jurisdiction, status]) => {
+        const statusPath = `${path}.regulatory.${jurisdiction}`;
+        if (!isJurisdiction(jurisdiction)) {
+          errors.push(`${statusPath}: unknown jurisdiction`);
+          return;
+        }
+        checkFields(status, statusPath, errors, {
+          status: { check: isOneOf(regulatoryStatusLevels), expected: `one of ${regulatoryStatusLevels.join(', ')}` },
+          maxConcentration: { optional: true, check: isNumber, expected: 'a number' },
+          annex: { optional: true, check: isString, expected: 'a string' },
+          conditions: { optional: true, check: isString, expected: 'a string' },
+          reference: { optional: true, check: isString, expected: 'a string' }
+        });
+      });
+    }
+  }
+
+  if (ingredient.skin !== undefined) {
+    checkFields(ingredient.skin, `${path}.skin`, errors, {
+      comedogenicity: { check: isNumber, expected: 'a number' },
+      irritancy: { check: isNumber, expected: 'a number' }
+    });
+  }
+
+  if (ingredient.fragranceAllergen !== undefined) {
+    checkFields(ingredient.fragranceAllergen, `${path}.fragranceAllergen`, errors, {
+      id: { check: isString, expected: 'a string' },
+      name: { check: isString, expected: 'a string' },
+      list: { check: isOneOf(FRAGRANCE_LISTS), expected: `one of ${FRAGRANCE_LISTS.join(', ')}` }
+    });
+  }
+
+  if (ingredient.contextAdjustments !== undefined) {
+    checkArray(ingredient.contextAdjustments, `${path}.contextAdjustments`, errors, (adjustment, adjustmentPath) =>
+      checkFields(adjustment, adjustmentPath, errors, {
+        ruleId: { check: isString, expected: 'a string' },
+        scoreDelta: { check: isNumber, expected: 'a number' },
+        note: { check: isString, expected: 'a string' }
+      }));
+  }
+
+  if (ingredient.cache !== undefined) {
+    checkFields(ingredient.cache, `${path}.cache`, errors, {
+      hit: { check: isBoolean, expected: 'a boolean' },
+      stale: { check: isBoolean, expected: 'a boolean' },
+      cachedAt: { check: isNumber, expected: 'a number' },
+      expiresAt: { check: isNumber, expected: 'a number' }
+    });
+  }
+
+  if (ingredient.additive !== undefined && checkFields(ingredient.additive, `${path}.additive`, errors, {
+    ins: { check: isString, expected: 'a string' },
+    eNumber: { check: isString, expected: 'a string' },
+    functionalClasses: { check: isStringArray, expected: 'a list of strings' }
+  })) {
+    const additive = ingredient.additive as Record<string, unknown>;
+    checkFields(additive.adi, `${path}.additive.adi`, errors, {
+      maxMgPerKg: { check: limit => limit === null || isNumber(limit), expected: 'a number or null' },
+      source: { check: isString, expected: 'a string' }
+    });
+    checkFields(additive.fssai, `${path}.additive.fssai`, errors, {
+      status: { check: isOneOf(FSSAI_STATUSES), expected: `one of ${FSSAI_STATUSES.join(', ')}` },
+      notes: { optional: true, check: isString, expected: 'a string' }
+    });
+  }
+
+  if (ingredient.translatedFrom !== undefined) {
+    checkFields(ingredient.translatedFrom, `${path}.translatedFrom`, errors, {
+      language: { check: isOneOf(LANGUAGES), expected: `one of ${LANGUAGES.join(', ')}` },
+      original: { check: isString, expected: 'a string' }
+    });
+  }
+
+  if (ingredient.children !== undefined) {
+    checkArray(ingredient.children, `${path}.children`, errors, (child, childPath) =>
+      validateReportIngredient(child, childPath, errors));
+  }
+};
+
+/**
+ * Reads an exported JSON report back in. The schema name and version must
+ * match, and every ingredient must carry well-formed values for the fields
+ * the results view reads, down to list entries and nested records; research
+ * links must be http(s) URLs. Anything else is reported as one error listing
+ * every problem.
+ */
+export const parseAnalysisReport = (json: string): AnalysisReport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid analysis report:\n  - not valid JSON');
+  }
+
+  const errors: string[] = [];
+  if (!isRecord(data)) {
+    errors.push('must be a JSON object');
+  } else {
+    if (data.schema !== REPORT_SCHEMA) errors.push(`schema must be "${REPORT_SCHEMA}"`);
+    if (data.schemaVersion !== REPORT_VERSION) errors.push(`unsupported schemaVersion "${data.schemaVersion}"`);
+    if (data.mode !== 'cosmetic' && data.mode !== 'food') errors.push(`unknown mode "${data.mode}"`);
+    if (data.productType !== undefined && !isOneOf(PRODUCT_TYPES)(data.productType)) {
+      errors.push(`unknown productType "${data.productType}"`);
+    }
+    ['analyzedAt', 'exportedAt'].forEach(key => {
+      const date = data[key];
+      if (!isString(date) || Number.isNaN(Date.parse(date))) errors.push(`${key} must be an ISO date`);
+    });
+    if (typeof data.labelText !== 'string') errors.push('labelText must be a string');
+    if (data.thumbnail !== undefined && (typeof data.thumbnail !== 'string' || !data.thumbnail.startsWith('data:image/'))) {
+      errors.push('thumbnail must be an image data URL');
+    }
+    checkFields(data.summary, 'summary', errors, {
+      score: { check: isNumber, expected: 'a number' },
+      weightedAverage: { check: isNumber, expected: 'a number' },
+      floorApplied: { check: isBoolean, expected: 'a boolean' },
+      safetyLevel: { check: isOneOf(SAFETY_LEVELS), expected: `one of ${SAFETY_LEVELS.join(', ')}` },
+      ecoScore: { check: isNumber, expected: 'a number' },
+      ecoLevel: { check: isOneOf(ECO_LEVELS), expected: `one of ${ECO_LEVELS.join(', ')}` }
+    });
+    if (!Array.isArray(data.ingredients) || data.ingredients.length === 0) {
+      errors.push('ingredients must be a non-empty array');
+    } else {
+      data.ingredients.forEach((ingredient, index) => validateReportIngredient(ingredient, `ingredients[${index}]`, errors));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid analysis report:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data as AnalysisReport;
+};
+
+interface ReportRow {
+  ingredient: Ingredient;
+  parent?: Ingredient;
+}
+
+// Parents are followed by their sub-ingredients, which keep a reference to the parent
+const toRows = (ingredients: Ingredient[], parent?: Ingredient): ReportRow[] =>
+  ingredients.flatMap(ingredient => [{ ingredient, parent }, ...toRows(ingredient.children ?? [], ingredient)]);
+
+const CSV_HEADER = [
+  'Position', 'Ingredient', 'Canonical name', 'Part of', 'May contain', 'Concentration (%)', 'Functions',
+  'Score', 'Safety level', 'Concerns', 'Natural alternatives', 'Source', 'Confidence'
+];
+
+// Quotes fields that need it and defuses values a spreadsheet would run as a formula
+const toCsvField = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes the report as CSV: a short block of product-level fields, a blank
+ * line, then one row per ingredient with sub-ingredients after their parent.
+ * The thumbnail is left out.
+ */
+export const reportToCsv = (report: AnalysisReport): string => {
+  const { summary } = report;
+  const meta: (string | number)[][] = [
+    ['Analyzed at', report.analyzedAt],
+    ['Mode', report.mode],
+    ...(report.productType ? [['Product type', getProductType(report.productType).label]] : []),
+    ['Overall score', summary.score],
+    ['Safety level', summary.safetyLevel],
+    ['Eco score', summary.ecoScore]
+  ];
+
+  const rows = toRows(report.ingredients).map(({ ingredient, parent }) => [
+    ingredient.position,
+    ingredient.name,
+    ingredient.canonicalName,
+    parent?.name,
+    ingredient.mayContain ? 'yes' : undefined,
+    ingredient.concentration,
+    ingredient.functions.join('; '),
+    ingredient.ewgScore,
+    ingredient.safetyLevel,
+    ingredient.concerns.join('; '),
+    ingredient.naturalAlternatives.join('; '),
+    ingredient.source,
+    ingredient.confidence
+  ]);
+
+  return [...meta, [], CSV_HEADER, ...rows]
+    .map(row => row.map(toCsvField).join(','))
+    .join('\r\n');
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+/**
+ * Renders the report as a standalone, print-ready HTML page for
+ * openPrintableReport.
+ */
+export const reportToHtml = (report: AnalysisReport): string => {
+  const { summary } = report;
+  const rows = toRows(report.ingredients).map(({ ingredient, parent }) => `
+      <tr${ingredient.mayContain ? ' class="may-contain"' : ''}>
+        <td>${parent ? '&nbsp;&nbsp;↳ ' : ''}${escapeHtml(ingredient.name)}${
+          ingredient.concentration !== undefined ? ` (${ingredient.concentration}%)` : ''
+        }${ingredient.mayContain ? ' <em>(may contain)</em>' : ''}</td>
+        <td>${escapeHtml(ingredient.functions.join(', '))}</td>
+        <td class="score">${ingredient.ewgScore}</td>
+        <td>${escapeHtml(ingredient.safetyLevel)}</td>
+        <td>${escapeHtml(ingredient.concerns.join('; ')) || '—'}</td>
+        <td>${escapeHtml(ingredient.naturalAlternatives.join(', ')) || '—'}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Ingredient analysis report – ${escapeHtml(formatDate(report.analyzedAt))}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111827; margin: 24px; font-size: 12px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    header { display: flex; gap: 16px; align-items: flex-start; margin-bottom: 16px; }
+    header img { max-width: 120px; max-height: 120px; border: 1px solid #d1d5db; border-radius: 4px; }
+    dl { display: grid; grid-template-columns: max-content auto; gap: 2px 12px; margin: 8px 0 0; }
+    dt { font-weight: 600; }
+    dd { margin: 0; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+    th { background: #f3f4f6; }
+    td.score { text-align: center; }
+    tr.may-contain { color: #6b7280; }
+    tr { page-break-inside: avoid; }
+    .label { margin: 12px 0; color: #374151; }
+    footer { margin-top: 16px; color: #6b7280; font-size: 10px; }
+  </style>
+</head>
+<body>
+  <header>
+    ${report.thumbnail ? `<img src="${escapeHtml(report.thumbnail)}" alt="Scanned label">` : ''}
+    <div>
+      <h1>Ingredient Analysis Report</h1>
+      <dl>
+        <dt>Analyzed</dt><dd>${escapeHtml(formatDate(report.analyzedAt))}</dd>
+        <dt>Mode</dt><dd>${report.mode === 'food' ? 'Food' : 'Cosmetics'}</dd>
+        ${report.productType ? `<dt>Product type</dt><dd>${escapeHtml(getProductType(report.productType).label)}</dd>` : ''}
+        <dt>Overall</dt><dd>${escapeHtml(summary.safetyLevel)} (score ${summary.score}/10)</dd>
+        <dt>Eco score</dt><dd>${summary.ecoScore}/10</dd>
+      </dl>
+    </div>
+  </header>
+  <p class="label"><strong>Label:</strong> ${escapeHtml(report.labelText)}</p>
+  <table>
+    <thead>
+      <tr><th>Ingredient</th><th>Function</th><th>Score</th><th>Safety level</th><th>Concerns</th><th>Natural alternatives</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <footer>Exported ${escapeHtml(formatDate(report.exportedAt))} from NutriNexus. For information only; not a medical assessment.</footer>
+</body>
+</html>`;
+};
+
+export const downloadReport = (report: AnalysisReport, format: Exclude<ReportFormat, 'pdf'>) => {
+  const content = format === 'csv' ? reportToCsv(report) : reportToJson(report);
+  // The byte order mark makes Excel read the CSV as UTF-8
+  const blob = new Blob([format === 'csv' ? `\uFEFF${content}` : content], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getReportFileName(report, format);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Opens the report in a new window and brings up the print dialog, where it
+ * can be saved as a PDF. Throws if the browser blocked the window.
+ */
+export const openPrintableReport = (report: AnalysisReport) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The report window was blocked. Allow pop-ups for this site to export a PDF.');
+  }
+
+  printWindow.document.write(reportToHtml(report));
+  printWindow.document.close();
+  printWindow.addEventListener('load', () => printWindow.print());
+};
@@ -0,0 +1,107 @@
+import { Ingredient } from '../types/ingredient';
+import {
+  EcoLevel,
+  EcoScore,
+  EnvironmentalCategory,
+  EnvironmentalProfile,
+  EnvironmentalRule,
+  EnvironmentalRuleSet
+} from '../types/environment';
+import { containsTerm, tokenizeName } from './textMatching';
+import { flattenIngredients } from './ingredientTree';
+import rawRules from '../data/environmentalRules.json';
+
+const CATEGORIES: EnvironmentalCategory[] = ['reef', 'microplastic', 'persistence', 'aquatic-toxicity', 'palm'];
+const MAX_ECO_SCORE = 10;
+
+export const environmentalCategoryLabels: Record<EnvironmentalCategory, string> = {
+  reef: 'Reef harm',
+  microplastic: 'Microplastic',
+  persistence: 'Persistent / poorly biodegradable',
+  'aquatic-toxicity': 'Toxic to aquatic life',
+  palm: 'Palm-derived',
+};
+
+const ruleMatches = (tokenSets: string[][], rule: EnvironmentalRule): boolean =>
+  tokenSets.some(tokens =>
+    rule.terms.some(term => containsTerm(tokens, term)) &&
+    !(rule.unless ?? []).some(term => containsTerm(tokens, term))
+  );
+
+const profileWith = (names: string[], ruleSet: EnvironmentalRuleSet): EnvironmentalProfile => {
+  const tokenSets = names.map(tokenizeName);
+  const flags = ruleSet.rules
+    .filter(rule => ruleMatches(tokenSets, rule))
+    .sort((a, b) => b.impact - a.impact)
+    .map(({ id, category, impact, note }) => ({ ruleId: id, category, impact, note }));
+
+  return { flags, impact: flags[0]?.impact ?? 0 };
+};
+
+/**
+ * Checks the environmental rule file at startup: ids must be unique,
+ * categories known, impacts from 1 to 5 and every rule needs a term.
+ */
+const validateEnvironmentalRules = (data: EnvironmentalRuleSet): EnvironmentalRuleSet => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  data.rules.forEach(rule => {
+    if (ids.has(rule.id)) errors.push(`duplicate rule id "${rule.id}"`);
+    ids.add(rule.id);
+
+    if (!CATEGORIES.includes(rule.category)) errors.push(`${rule.id}: unknown category "${rule.category}"`);
+    if (!Number.isInteger(rule.impact) || rule.impact < 1 || rule.impact > 5) {
+      errors.push(`${rule.id}: impact must be an integer from 1 to 5`);
+    }
+    if (rule.terms.length === 0) errors.push(`${rule.id}: needs at least one term`);
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid environmental rules:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+const environmentalRules = validateEnvironmentalRules(rawRules as EnvironmentalRuleSet);
+
+/**
+ * Flags an ingredient's environmental concerns (reef harm, microplastics,
+ * persistence, aquatic toxicity, palm sourcing) from its label and canonical
+ * names, worst first.
+ */
+export const assessEnvironmentalImpact = (...names: (string | undefined)[]): EnvironmentalProfile =>
+  profileWith(names.filter((name): name is string => Boolean(name)), environmentalRules);
+
+const getEcoLevel = (score: number): EcoLevel => {
+  if (score === 0) return 'none';
+  if (score <= 3) return 'low';
+  if (score <= 6) return 'moderate';
+  return 'high';
+};
+
+/**
+ * Scores a product's environmental impact from 0 to 10 by adding up each
+ * flagged ingredient's worst impact, counting declared sub-ingredients.
+ * Unlike the hazard score this ignores concentration: a microplastic or
+ * reef-toxic filter matters at any level. "May contain" items are left out.
+ */
+export const calculateEcoScore = (ingredients: Ingredient[]): EcoScore => {
+  const flagged = flattenIngredients(ingredients.filter(ingredient => !ingredient.mayContain))
+    .filter(ingredient => ingredient.environmental.flags.length > 0);
+
+  const score = Math.min(MAX_ECO_SCORE, flagged.reduce((acc, ingredient) => acc + ingredient.environmental.impact, 0));
+  const categories = CATEGORIES.filter(category =>
+    flagged.some(ingredient => ingredient.environmental.flags.some(flag => flag.category === category))
+  );
+
+  return {
+    score,
+    level: getEcoLevel(score),
+    flagged: flagged
+      .map(({ name, environmental }) => ({ name, flags: environmental.flags }))
+      .sort((a, b) => b.flags[0].impact - a.flags[0].impact),
+    categories
+  };
+};
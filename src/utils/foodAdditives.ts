@@ -0,0 +1,85 @@
+import { FoodAdditiveDataset, FoodAdditiveInfo, FoodAdditiveRecord, FssaiStatus } from '../types/foodAdditive';
+import { normalizeIngredientName } from './ingredientDataset';
+import rawAdditives from '../data/foodAdditives.json';
+
+const FSSAI_STATUSES: FssaiStatus[] = ['permitted', 'restricted', 'not-permitted'];
+const INS_PATTERN = /^\d{3,4}[a-f]?$/;
+
+// "E 102", "INS-150(d)", "471", "500(ii)" -> "102", "150d", "471", "500"
+const CODE_PATTERN = /^(?:e|ins)?\s*-?\s*(\d{3,4})\s*(?:\(\s*([a-f])\s*\)|([a-f]))?\s*(?:\(\s*(?:i{1,3}|iv|v|vi)\s*\))?$/i;
+
+/**
+ * Checks the additive file at startup: INS numbers must be well formed and
+ * unique, names and synonyms unique across additives, scores in range and
+ * FSSAI statuses known.
+ */
+const validateFoodAdditives = (data: FoodAdditiveDataset): FoodAdditiveDataset => {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const namedBy = new Map<string, string>();
+
+  data.additives.forEach(additive => {
+    if (!INS_PATTERN.test(additive.ins)) errors.push(`"${additive.ins}" is not a valid INS number`);
+    if (seen.has(additive.ins)) errors.push(`duplicate INS number "${additive.ins}"`);
+    seen.add(additive.ins);
+
+    [additive.name, ...additive.synonyms].map(normalizeIngredientName).forEach(name => {
+      const owner = namedBy.get(name);
+      if (owner && owner !== additive.ins) errors.push(`INS ${additive.ins}: name "${name}" is already used by INS ${owner}`);
+      namedBy.set(name, additive.ins);
+    });
+
+    if (!Number.isInteger(additive.score) || additive.score < 1 || additive.score > 10) {
+      errors.push(`INS ${additive.ins}: score must be an integer from 1 to 10`);
+    }
+    if (!FSSAI_STATUSES.includes(additive.fssai.status)) {
+      errors.push(`INS ${additive.ins}: unknown FSSAI status "${additive.fssai.status}"`);
+    }
+    if (additive.adi.maxMgPerKg !== null && additive.adi.maxMgPerKg <= 0) {
+      errors.push(`INS ${additive.ins}: ADI must be positive or null`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid food additive dataset:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+export const foodAdditives = validateFoodAdditives(rawAdditives as FoodAdditiveDataset);
+
+const additivesByCode = new Map(foodAdditives.additives.map(additive => [additive.ins, additive]));
+
+const additivesByName = new Map<string, FoodAdditiveRecord>();
+foodAdditives.additives.forEach(additive => {
+  [additive.name, ...additive.synonyms].forEach(name => {
+    additivesByName.set(normalizeIngredientName(name), additive);
+  });
+});
+
+/**
+ * Normalizes an E-number or INS code as printed on a label. Returns null for
+ * anything that isn't a 3-4 digit additive code.
+ */
+export const parseAdditiveCode = (text: string): string | null => {
+  const match = text.trim().match(CODE_PATTERN);
+  if (!match) return null;
+  return `${match[1]}${(match[2] ?? match[3] ?? '').toLowerCase()}`;
+};
+
+export const findAdditiveByCode = (code: string): FoodAdditiveRecord | null => {
+  // Fall back to the parent number when a letter sub-variant isn't listed
+  return additivesByCode.get(code) ?? additivesByCode.get(code.replace(/[a-f]$/, '')) ?? null;
+};
+
+export const findAdditiveByName = (name: string): FoodAdditiveRecord | null =>
+  additivesByName.get(normalizeIngredientName(name)) ?? null;
+
+export const toAdditiveInfo = (additive: FoodAdditiveRecord): FoodAdditiveInfo => ({
+  ins: additive.ins,
+  eNumber: `E${additive.ins}`,
+  functionalClasses: additive.functionalClasses,
+  adi: additive.adi,
+  fssai: additive.fssai,
+});
@@ -0,0 +1,105 @@
+import { Ingredient } from '../types/ingredient';
+import { AllergenProfileEntry } from '../types/allergen';
+import {
+  FragranceAllergen,
+  FragranceAllergenData,
+  FragranceAllergenHit,
+  FragranceAllergenList,
+  FragranceAllergenRef,
+  FragranceAllergenReport
+} from '../types/fragrance';
+import { findAllergenMatches } from './allergenMatcher';
+import { containsTerm, tokenizeName } from './textMatching';
+import { flattenIngredients } from './ingredientTree';
+import rawFragranceAllergens from '../data/fragranceAllergens.json';
+
+const LISTS: FragranceAllergenList[] = ['2003', '2023'];
+
+/**
+ * Checks the fragrance allergen file at startup: ids must be unique, lists
+ * known and every allergen needs at least one term.
+ */
+const validateFragranceAllergens = (data: FragranceAllergenData): FragranceAllergenData => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  data.allergens.forEach(allergen => {
+    if (ids.has(allergen.id)) errors.push(`duplicate allergen id "${allergen.id}"`);
+    ids.add(allergen.id);
+
+    if (!LISTS.includes(allergen.list)) errors.push(`${allergen.id}: unknown list "${allergen.list}"`);
+    if (allergen.terms.length === 0) errors.push(`${allergen.id}: needs at least one term`);
+  });
+
+  if (data.fragranceTerms.length === 0) errors.push('needs at least one fragrance term');
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid fragrance allergens:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+const fragranceAllergens = validateFragranceAllergens(rawFragranceAllergens as FragranceAllergenData);
+
+export const fragranceAllergenSource = fragranceAllergens.source;
+
+const allergenMatches = (tokenSets: string[][], allergen: FragranceAllergen): boolean =>
+  tokenSets.some(tokens =>
+    allergen.terms.some(term => containsTerm(tokens, term)) &&
+    !(allergen.unless ?? []).some(term => containsTerm(tokens, term))
+  );
+
+/**
+ * Finds the EU-declarable fragrance allergen an ingredient is, from its label
+ * and canonical names. Entries are tried in file order, so the specific names
+ * of the original 26 win over broader terms added in 2023 ("ionone").
+ */
+export const findFragranceAllergen = (...names: (string | undefined)[]): FragranceAllergenRef | undefined => {
+  const tokenSets = names.filter((name): name is string => Boolean(name)).map(tokenizeName);
+  const allergen = fragranceAllergens.allergens.find(entry => allergenMatches(tokenSets, entry));
+  return allergen && { id: allergen.id, name: allergen.name, list: allergen.list };
+};
+
+const isFragranceBlend = (ingredient: Ingredient): boolean => {
+  const tokenSets = [ingredient.name, ingredient.canonicalName]
+    .filter((name): name is string => Boolean(name))
+    .map(tokenizeName);
+  return tokenSets.some(tokens => fragranceAllergens.fragranceTerms.some(term => containsTerm(tokens, term)));
+};
+
+const hasFragranceAllergen = (ingredient: Ingredient): ingredient is Ingredient & { fragranceAllergen: FragranceAllergenRef } =>
+  ingredient.fragranceAllergen !== undefined;
+
+/**
+ * Summarizes a cosmetic product's declarable fragrance allergens, counting
+ * declared sub-ingredients. A label that lists parfum but none of the
+ * regulated allergens is reported as undisclosed: either every allergen is
+ * under the declaration threshold or the label is incomplete. Each hit is
+ * linked to the user's allergen profile where an entry already covers it.
+ * "May contain" items are left out.
+ */
+export const analyzeFragranceAllergens = (
+  ingredients: Ingredient[],
+  allergens: AllergenProfileEntry[]
+): FragranceAllergenReport => {
+  const listed = flattenIngredients(ingredients.filter(ingredient => !ingredient.mayContain));
+  const blends = listed.filter(isFragranceBlend);
+  const flagged = listed.filter(hasFragranceAllergen);
+  const profileMatches = findAllergenMatches([...blends, ...flagged], allergens);
+  const profileMatchFor = (ingredient: Ingredient) => profileMatches.find(match => match.ingredient === ingredient);
+
+  const hits: FragranceAllergenHit[] = flagged.map(ingredient => ({
+    ingredient,
+    allergen: ingredient.fragranceAllergen,
+    profileMatch: profileMatchFor(ingredient)
+  }));
+
+  return {
+    hasFragrance: blends.length > 0,
+    hits,
+    undisclosed: blends.length > 0 && hits.length === 0,
+    load: new Set(hits.map(hit => hit.allergen.id)).size,
+    fragranceProfileMatches: blends.flatMap(ingredient => profileMatchFor(ingredient) ?? [])
+  };
+};
@@ -0,0 +1,28 @@
+const THUMBNAIL_SIZE = 240;
+const THUMBNAIL_QUALITY = 0.7;
+
+/**
+ * Scales an image data URL down to a small JPEG so it can be kept with a
+ * report or history entry. Resolves to undefined if the image can't be
+ * decoded or drawn.
+ */
+export const createThumbnail = (imageUrl: string, maxSize: number = THUMBNAIL_SIZE): Promise<string | undefined> =>
+  new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(undefined);
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY));
+    };
+    image.onerror = () => resolve(undefined);
+    image.src = imageUrl;
+  });
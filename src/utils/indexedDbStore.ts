@@ -0,0 +1,58 @@
+interface StoreConfig {
+  dbName: string;
+  version: number;
+  storeName: string;
+  keyPath: string;
+}
+
+export type WithStore = <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => Promise<T>;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Returns a helper that runs one request against a single-store IndexedDB
+ * database, opening (and if needed creating) it on first use.
+ */
+export const createStoreAccessor = ({ dbName, version, storeName, keyPath }: StoreConfig): WithStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(dbName, version);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName, { keyPath });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Let the next call retry instead of caching the failure forever
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+
+    return dbPromise;
+  };
+
+  return async (mode, run) => {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return promisifyRequest(run(store));
+  };
+};
@@ -1,157 +1,55 @@
-import { Ingredient } from '../types/ingredient';
+import { Ingredient, AnalysisMode, AnalyzeOptions, EWGLookupData, IngredientCacheInfo, IngredientSource, ScoreTraceStep } from '../types/ingredient';
 import * as cheerio from 'cheerio';
-
-// Expanded ingredient database with more detailed information
-const ingredientDatabase: Record<string, {
-  baseScore: number;
-  category: string;
-  concerns: string[];
-  benefits: string[];
-  scientificName?: string;
-  restrictions?: string[];
-  naturalAlternatives?: string[];
-  researchLinks?: string[];
-}> = {
-  // Preservatives
-  'paraben': {
-    baseScore: 8,
-    category: 'Preservative',
-    concerns: [
-      'Endocrine disruption',
-      'Reproductive toxicity',
-      'Potential carcinogenic effects',
-      'Skin sensitization'
-    ],
-    benefits: ['Effective preservation', 'Extends product shelf life'],
-    restrictions: ['Restricted in EU', 'Limited use in Japan'],
-    naturalAlternatives: ['Grapefruit seed extract', 'Rosemary extract', 'Neem oil'],
-    researchLinks: [
-      'https://pubmed.ncbi.nlm.nih.gov/parabens-safety',
-      'https://www.sciencedirect.com/topics/parabens-toxicology'
-    ]
-  },
-  'phenoxyethanol': {
-    baseScore: 4,
-    category: 'Preservative',
-    concerns: ['Potential skin irritation', 'Allergic reactions in sensitive individuals'],
-    benefits: ['Broad spectrum preservation', 'Stable in formulations'],
-    naturalAlternatives: ['Leuconostoc ferment filtrate', 'Lactobacillus ferment']
-  },
-  'sodium benzoate': {
-    baseScore: 3,
-    category: 'Preservative',
-    concerns: ['Potential irritation at high concentrations'],
-    benefits: ['Natural origin option', 'Effective against mold'],
-    scientificName: 'Sodium benzoate'
-  },
-
-  // Surfactants
-  'sodium lauryl sulfate': {
-    baseScore: 6,
-    category: 'Surfactant',
-    concerns: [
-      'Skin irritation',
-      'Barrier disruption',
-      'Environmental concerns',
-      'Potential contamination with 1,4-dioxane'
-    ],
-    benefits: ['Effective cleansing', 'Good foaming'],
-    naturalAlternatives: ['Decyl glucoside', 'Coco glucoside']
-  },
-  'cocamidopropyl betaine': {
-    baseScore: 3,
-    category: 'Surfactant',
-    concerns: ['Mild skin sensitization'],
-    benefits: ['Gentle cleansing', 'Reduces irritation from other surfactants']
-  },
-
-  // Emollients
-  'glycerin': {
-    baseScore: 1,
-    category: 'Emollient',
-    concerns: [],
-    benefits: [
-      'Hydration',
-      'Skin barrier support',
-      'Natural moisture factor',
-      'Improves product texture'
-    ],
-    scientificName: 'Glycerol'
-  },
-  'hyaluronic acid': {
-    baseScore: 1,
-    category: 'Humectant',
-    concerns: [],
-    benefits: [
-      'Deep hydration',
-      'Anti-aging properties',
-      'Supports skin barrier',
-      'Improves wound healing'
-    ],
-    scientificName: 'Sodium Hyaluronate'
-  },
-
-  // Antioxidants
-  'vitamin e': {
-    baseScore: 1,
-    category: 'Antioxidant',
-    concerns: [],
-    benefits: [
-      'Antioxidant protection',
-      'Skin conditioning',
-      'Anti-inflammatory',
-      'Helps preserve other ingredients'
-    ],
-    scientificName: 'Tocopherol'
-  },
-  'vitamin c': {
-    baseScore: 1,
-    category: 'Antioxidant',
-    concerns: ['Stability issues'],
-    benefits: [
-      'Brightening',
-      'Collagen support',
-      'Photoprotection',
-      'Anti-aging'
-    ],
-    scientificName: 'Ascorbic Acid'
-  },
-
-  // UV Filters
-  'titanium dioxide': {
-    baseScore: 3,
-    category: 'UV Filter',
-    concerns: [
-      'Potential inhalation risk (powder form)',
-      'Nanoparticle concerns'
-    ],
-    benefits: [
-      'Broad spectrum protection',
-      'Stable sun protection',
-      'Non-irritating'
-    ],
-    scientificName: 'TiO2'
-  },
-  'zinc oxide': {
-    baseScore: 2,
-    category: 'UV Filter',
-    concerns: ['White cast on skin'],
-    benefits: [
-      'Natural sun protection',
-      'Skin soothing',
-      'Anti-inflammatory'
-    ],
-    scientificName: 'ZnO'
-  }
+import { IngredientMatchType, IngredientResolution } from '../types/ingredientDataset';
+import { ContextAdjustment } from '../types/productContext';
+import { IngredientListNode } from '../types/ingredientList';
+import { IngredientTranslation, LabelLanguage } from '../types/translation';
+import { ProductType, SafetyThresholds } from '../types/productContext';
+import { resolveIngredient } from './ingredientCanonicalizer';
+import { parseIngredientList } from './ingredientListParser';
+import { DEFAULT_FUNCTION, classifyIngredient } from './ingredientClassifier';
+import { classifyOrigin } from './ingredientOrigin';
+import { assessEnvironmentalImpact } from './environmentalImpact';
+import { findFragranceAllergen } from './fragranceAllergens';
+import { DEFAULT_LANGUAGE, detectLabelLanguage, getLanguageLabel, translateIngredientName } from './ingredientTranslation';
+import { ingredientDataset } from './ingredientDataset';
+import { DEFAULT_PRODUCT_TYPE, applyProductContext, getProductType } from './productContext';
+import { DEFAULT_CACHE_TTL, getCachedLookup, isCacheEntryFresh, setCachedLookup } from './ingredientCache';
+import { findAdditiveByCode, findAdditiveByName, foodAdditives, parseAdditiveCode, toAdditiveInfo } from './foodAdditives';
+
+// Lookups beyond this many at once mostly queue up behind the edge function anyway
+const DEFAULT_CONCURRENCY = 4;
+// Food mode: plain ingredients (flour, sugar) aren't scored for toxicity, unknown additive codes are
+const FOOD_INGREDIENT_SCORE = 1;
+const UNKNOWN_ADDITIVE_SCORE = 5;
+// Used when neither EWG, the database nor a name pattern knows the ingredient
+const DEFAULT_SCORE = 5;
+
+// How far a score can be trusted, by where it came from
+const CONFIDENCE = {
+  ewg: 0.9,
+  database: 0.85,
+  fuzzyDatabase: 0.6,
+  pattern: 0.4,
+  fallback: 0.2
 };
 
-const fetchEWGData = async (ingredient: string): Promise<Partial<Ingredient> | null> => {
+interface LookupOptions {
+  signal?: AbortSignal;
+  cacheTtl: number;
+  useCache: boolean;
+  refresh: boolean;
+  productType: ProductType;
+}
+
+const fetchEWGData = async (ingredient: string, signal?: AbortSignal): Promise<EWGLookupData | null> => {
   try {
     const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ewg-search`;
     const response = await fetch(`${apiUrl}?ingredient=${encodeURIComponent(ingredient)}`, {
       headers: {
         'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-      }
+      },
+      signal
     });
 
     if (!response.ok) {
@@ -161,17 +59,17 @@ const fetchEWGData = async (ingredient: string): Promise<Partial<Ingredient> | n
 
     const data = await response.json();
     
-    // Handle both scraped data and HTML fallback
+    // Handle both scraped data and HTML fallback. A result without a score
+    // is treated as no match so the caller falls back to the local database.
     if (data.data) {
       // Process structured data from Puppeteer scraping
       const productData = data.data[0]; // Use first result
-      if (productData) {
+      const score = parseScore(productData?.score);
+      if (productData && score !== null) {
         return {
-          ewgScore: parseScore(productData.score),
-          safetyLevel: getSafetyLevel(parseScore(productData.score)),
-          reasonForConcern: productData.concerns?.join(', '),
-          function: productData.category,
-          commonUse: getCommonUse(ingredient),
+          score,
+          concerns: productData.concerns ?? [],
+          function: productData.category || undefined,
         };
       }
     } else if (data.html) {
@@ -181,42 +79,65 @@ const fetchEWGData = async (ingredient: string): Promise<Partial<Ingredient> | n
       
       if (!firstResult.length) return null;
 
-      const scoreText = firstResult.find('.product-score').text().trim();
-      let score = parseScore(scoreText);
+      const score = parseScore(firstResult.find('.product-score').text().trim());
+      if (score === null) return null;
 
       const concerns = firstResult.find('.product-concerns li')
         .map((_, el) => $(el).text().trim())
         .get()
-        .join(', ');
+        .filter(Boolean);
 
       const functionText = firstResult.find('.product-details .function').text().trim();
       const useText = firstResult.find('.product-details .common-use').text().trim();
 
-      // Combine with database data
-      const dbMatch = findIngredientInDatabase(ingredient);
-      const finalScore = score || (dbMatch ? dbMatch.baseScore : calculateDefaultScore(ingredient));
-
       return {
-        ewgScore: finalScore,
-        safetyLevel: getSafetyLevel(finalScore),
-        reasonForConcern: concerns || (dbMatch ? dbMatch.concerns.join(', ') : getDefaultConcern(finalScore)),
-        function: functionText || (dbMatch ? dbMatch.category : getIngredientFunction(ingredient)),
-        commonUse: useText || getCommonUse(ingredient),
-        scientificName: dbMatch?.scientificName,
-        benefits: dbMatch?.benefits?.join(', '),
-        restrictions: dbMatch?.restrictions?.join(', '),
-        naturalAlternatives: dbMatch?.naturalAlternatives?.join(', '),
-        researchLinks: dbMatch?.researchLinks?.join('\n')
+        score,
+        concerns,
+        function: functionText || undefined,
+        commonUse: useText || undefined
       };
     }
 
     return null;
   } catch (error) {
+    // Cancellation must reach the caller instead of degrading to a fallback score
+    if (signal?.aborted) throw error;
     console.warn(`Error fetching EWG data for ${ingredient}:`, error);
     return null;
   }
 };
 
+/**
+ * Cache-first wrapper around fetchEWGData. Fresh entries skip the network
+ * unless `refresh` is set; expired ones are refreshed, but still served if
+ * the refresh fails so previously seen ingredients keep working offline.
+ */
+const lookupEWGData = async (
+  ingredient: string,
+  { signal, cacheTtl, useCache, refresh }: LookupOptions
+): Promise<{ data: EWGLookupData | null; cache?: IngredientCacheInfo }> => {
+  if (!useCache) {
+    return { data: await fetchEWGData(ingredient, signal) };
+  }
+
+  const cached = await getCachedLookup(ingredient);
+  if (cached && !refresh && isCacheEntryFresh(cached)) {
+    return { data: cached.data, cache: { hit: true, stale: false, cachedAt: cached.cachedAt, expiresAt: cached.expiresAt } };
+  }
+
+  const data = await fetchEWGData(ingredient, signal);
+  if (data) {
+    const entry = await setCachedLookup(ingredient, data, cacheTtl);
+    return { data, cache: entry ? { hit: false, stale: false, cachedAt: entry.cachedAt, expiresAt: entry.expiresAt } : undefined };
+  }
+
+  if (cached) {
+    return { data: cached.data, cache: { hit: true, stale: true, cachedAt: cached.cachedAt, expiresAt: cached.expiresAt } };
+  }
+
+  return { data: null };
+};
+
 const parseScore = (scoreText: string | undefined): number | null => {
   if (!scoreText) return null;
 
@@ -242,67 +163,26 @@ const parseScore = (scoreText: string | undefined): number | null => {
   return null;
 };
 
-const findIngredientInDatabase = (ingredient: string): typeof ingredientDatabase[keyof typeof ingredientDatabase] | null => {
-  const normalizedInput = ingredient.toLowerCase();
-  
-  // Direct match
-  if (normalizedInput in ingredientDatabase) {
-    return ingredientDatabase[normalizedInput];
-  }
-
-  // Partial match with improved accuracy
-  let bestMatch = null;
-  let highestMatchScore = 0;
-
-  for (const [key, value] of Object.entries(ingredientDatabase)) {
-    // Calculate similarity score
-    const similarity = calculateStringSimilarity(normalizedInput, key);
-    if (similarity > highestMatchScore && similarity > 0.8) { // 80% similarity threshold
-      highestMatchScore = similarity;
-      bestMatch = value;
-    }
-  }
-
-  return bestMatch;
-};
-
-const calculateStringSimilarity = (str1: string, str2: string): number => {
-  const longer = str1.length > str2.length ? str1 : str2;
-  const shorter = str1.length > str2.length ? str2 : str1;
-  
-  if (longer.length === 0) return 1.0;
-  
-  const longerLength = longer.length;
-  return (longerLength - editDistance(longer, shorter)) / parseFloat(longerLength.toString());
-};
-
-const editDistance = (str1: string, str2: string): number => {
-  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-
-  for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-  for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-
-  for (let j = 1; j <= str2.length; j++) {
-    for (let i = 1; i <= str1.length; i++) {
-      const substitutionCost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-      matrix[j][i] = Math.min(
-        matrix[j][i - 1] + 1,
-        matrix[j - 1][i] + 1,
-        matrix[j - 1][i - 1] + substitutionCost
-      );
-    }
-  }
-
-  return matrix[str2.length][str1.length];
-};
-
-const calculateDefaultScore = (ingredient: string): number => {
+interface RiskPatternMatch {
+  tier: string;
+  score: number;
+  pattern: RegExp;
+  matched: string;
+}
+
+/**
+ * Guesses a score from well-known name patterns. Returns the pattern that
+ * matched and the text it matched so the score can be explained, or null
+ * when nothing matches.
+ */
+const matchRiskPattern = (ingredient: string): RiskPatternMatch | null => {
   const riskPatterns = {
     high: {
       score: 8,
       patterns: [
         /paraben/i, /phthalate/i, /formaldehyde/i, /triclosan/i,
-        /bha/i, /bht/i, /toluene/i, /petroleum/i, /lead/i, /mercury/i,
+        // Short names need word boundaries: /lead/ alone would match "pleaded"
+        /\bbha\b/i, /\bbht\b/i, /toluene/i, /petroleum/i, /\blead\b/i, /mercury/i,
         /hydroquinone/i, /oxybenzone/i, /coal tar/i, /ethanolamines/i,
         /dioxane/i, /nitrosamine/i, /polyethylene/i
       ]
@@ -334,18 +214,98 @@ const calculateDefaultScore = (ingredient: string): number => {
     }
   };
 
-  for (const [risk, { patterns, score }] of Object.entries(riskPatterns)) {
-    if (patterns.some(pattern => pattern.test(ingredient))) {
-      return score;
+  for (const [tier, { patterns, score }] of Object.entries(riskPatterns)) {
+    for (const pattern of patterns) {
+      const match = ingredient.match(pattern);
+      if (match) {
+        return { tier, score, pattern, matched: match[0] };
+      }
     }
   }
 
-  return 5; // Default moderate score
+  return null;
+};
+
+const getConfidence = (source: IngredientSource, resolution: IngredientResolution | null, patternMatched: boolean): number => {
+  if (source === 'ewg') return CONFIDENCE.ewg;
+  if (source === 'database') return resolution?.matchType === 'fuzzy' ? CONFIDENCE.fuzzyDatabase : CONFIDENCE.database;
+  return patternMatched ? CONFIDENCE.pattern : CONFIDENCE.fallback;
 };
 
-const getSafetyLevel = (score: number): string => {
-  if (score <= 2) return 'Low Concern';
-  if (score <= 6) return 'Moderate Concern';
+const matchTypeLabels: Record<IngredientMatchType, string> = {
+  id: 'ID',
+  inci: 'INCI name',
+  synonym: 'synonym',
+  abbreviation: 'abbreviation',
+  cas: 'CAS number',
+  fuzzy: 'close spelling'
+};
+
+interface ScoreTraceInput {
+  name: string;
+  source: IngredientSource;
+  ewgData: EWGLookupData | null;
+  cache?: IngredientCacheInfo;
+  resolution: IngredientResolution | null;
+  patternMatch: RiskPatternMatch | null;
+  adjustments: ContextAdjustment[];
+}
+
+/**
+ * Records every source the analyzer consulted, in precedence order, and
+ * which one set the base score. Pattern matches are listed even when a
+ * better source won so false positives stay visible.
+ */
+const buildScoreTrace = ({ name, source, ewgData, cache, resolution, patternMatch, adjustments }: ScoreTraceInput): ScoreTraceStep[] => {
+  const steps: ScoreTraceStep[] = [];
+
+  if (ewgData) {
+    const cacheNote = cache?.hit
+      ? ` (${cache.stale ? 'expired cache' : 'cached'} from ${new Date(cache.cachedAt).toLocaleDateString()})`
+      : '';
+    steps.push({ kind: 'ewg', applied: true, score: ewgData.score, description: `EWG Skin Deep rated it ${ewgData.score}${cacheNote}` });
+  } else {
+    steps.push({ kind: 'ewg', applied: false, description: 'No EWG Skin Deep result' });
+  }
+
+  if (resolution) {
+    const { record, matchType, matchedAlias } = resolution;
+    steps.push({
+      kind: 'database',
+      applied: source === 'database',
+      score: record.hazard.baseScore,
+      description: `Database entry "${record.inciName}" (dataset v${ingredientDataset.version}), matched by ${matchTypeLabels[matchType]} "${matchedAlias}"`
+    });
+  } else {
+    steps.push({ kind: 'database', applied: false, description: `No database entry for "${name}"` });
+  }
+
+  if (patternMatch) {
+    steps.push({
+      kind: 'pattern',
+      applied: source === 'heuristic',
+      score: patternMatch.score,
+      description: `Name rule ${patternMatch.pattern} (${patternMatch.tier} risk) matched "${patternMatch.matched}"`
+    });
+  } else if (source === 'heuristic') {
+    steps.push({
+      kind: 'fallback',
+      applied: true,
+      score: DEFAULT_SCORE,
+      description: `Nothing recognized this ingredient, so it gets the default score of ${DEFAULT_SCORE}`
+    });
+  }
+
+  adjustments.forEach(({ scoreDelta, note }) => {
+    steps.push({ kind: 'context', applied: true, scoreDelta, description: note });
+  });
+
+  return steps;
+};
+
+const getSafetyLevel = (score: number, thresholds: SafetyThresholds = { low: 2, moderate: 6 }): string => {
+  if (score <= thresholds.low) return 'Low Concern';
+  if (score <= thresholds.moderate) return 'Moderate Concern';
   return 'High Concern';
 };
 
@@ -355,147 +315,354 @@ const getDefaultConcern = (score: number): string => {
   return 'High safety concerns, potential risks identified';
 };
 
-const getIngredientFunction = (ingredient: string): string => {
-  const functions: { [key: string]: string[] } = {
-    'Preservative': [
-      'paraben', 'phenoxyethanol', 'benzoate', 'sorbate', 'formaldehyde',
-      'methylisothiazolinone', 'benzyl alcohol', 'potassium sorbate',
-      'sodium benzoate', 'ethylhexylglycerin'
-    ],
-    'Surfactant': [
-      'lauryl', 'laureth', 'sodium', 'cocamide', 'sulfate', 'betaine',
-      'decyl glucoside', 'coco-glucoside', 'polysorbate', 'taurate',
-      'isethionate', 'amphoacetate'
-    ],
-    'Emollient': [
-      'oil', 'butter', 'glycerin', 'lanolin', 'dimethicone', 'squalane',
-      'ceramide', 'fatty acid', 'triglyceride', 'caprylic', 'stearic',
-      'cetyl', 'cetearyl', 'isopropyl myristate'
-    ],
-    'Fragrance': [
-      'fragrance', 'parfum', 'aroma', 'essential oil', 'limonene',
-      'linalool', 'citral', 'geraniol', 'citronellol', 'eugenol'
-    ],
-    'UV Filter': [
-      'benzophenone', 'avobenzone', 'titanium dioxide', 'zinc oxide',
-      'octinoxate', 'oxybenzone', 'octocrylene', 'homosalate',
-      'ethylhexyl methoxycinnamate', 'tinosorb'
-    ],
-    'Antioxidant': [
-      'tocopherol', 'vitamin', 'retinol', 'ascorbic', 'niacinamide',
-      'flavonoid', 'polyphenol', 'resveratrol', 'ferulic', 'ubiquinone'
-    ],
-    'Humectant': [
-      'glycerin', 'hyaluronic', 'urea', 'propylene glycol', 'butylene glycol',
-      'sodium pca', 'sorbitol', 'panthenol', 'sodium lactate', 'aloe'
-    ],
-    'Emulsifier': [
-      'cetyl', 'stearic', 'glyceryl', 'polysorbate', 'cetearyl',
-      'peg', 'sorbitan', 'carbomer', 'hydroxypropyl', 'lecithin'
-    ],
-    'pH Adjuster': [
-      'citric acid', 'lactic acid', 'sodium hydroxide', 'potassium hydroxide',
-      'triethanolamine', 'aminomethyl propanol'
-    ],
-    'Chelating Agent': [
-      'edta', 'tetrasodium', 'disodium', 'trisodium', 'etidronic acid'
-    ]
-  };
-
-  const lowerIngredient = ingredient.toLowerCase();
-  for (const [func, keywords] of Object.entries(functions)) {
-    if (keywords.some(keyword => lowerIngredient.includes(keyword))) {
-      return func;
+interface ParsedIngredient {
+  name: string;
+  position: number;
+  concentration?: number;
+  additiveCode?: string;
+  declaredClass?: string;
+  mayContain: boolean;
+  translatedFrom?: IngredientTranslation;
+  children: ParsedIngredient[];
+}
+
+type LabelItem = Omit<ParsedIngredient, 'position' | 'mayContain' | 'children'> & { children: LabelItem[] };
+
+const toLabelItems = (nodes: IngredientListNode[]): LabelItem[] =>
+  nodes.map(({ name, concentration, children }) => ({ name, concentration, children: toLabelItems(children) }));
+
+/**
+ * Food labels declare additives by class with INS/E codes, often several per
+ * class: "emulsifiers (471, 322)". Such a class is replaced by its additives,
+ * each carrying the declared class; other groups (e.g. "chocolate (sugar,
+ * cocoa butter)") stay compound ingredients.
+ */
+const toFoodLabelItems = (nodes: IngredientListNode[]): LabelItem[] =>
+  nodes.flatMap(({ name, concentration, children }): LabelItem[] => {
+    const isAdditiveClass = children.length > 0 &&
+      children.every(child => parseAdditiveCode(child.name) || findAdditiveByName(child.name));
+
+    if (isAdditiveClass) {
+      return children.map(child => ({
+        name: child.name,
+        concentration: child.concentration,
+        additiveCode: parseAdditiveCode(child.name) ?? undefined,
+        declaredClass: name,
+        children: []
+      }));
     }
-  }
 
-  return 'Other/Unknown';
+    return [{
+      name,
+      concentration,
+      additiveCode: parseAdditiveCode(name) ?? undefined,
+      children: toFoodLabelItems(children)
+    }];
+  });
+
+// Swaps localized names for their INCI names so lookups and scoring see INCI
+const translateLabelItems = (items: LabelItem[], language: LabelLanguage): LabelItem[] =>
+  items.map(item => {
+    const inciName = translateIngredientName(item.name, language);
+    return {
+      ...item,
+      name: inciName ? inciName.toLowerCase() : item.name,
+      translatedFrom: inciName ? { language, original: item.name } : undefined,
+      children: translateLabelItems(item.children, language)
+    };
+  });
+
+/**
+ * Numbers top-level items in label order, "may contain" items after the
+ * rest. Sub-ingredients share their parent's position.
+ */
+const toParsedIngredients = (items: LabelItem[], mayContain: boolean, firstPosition: number): ParsedIngredient[] => {
+  const withPosition = (item: LabelItem, position: number): ParsedIngredient => ({
+    ...item,
+    position,
+    mayContain,
+    children: item.children.map(child => withPosition(child, position))
+  });
+  return items.map((item, index) => withPosition(item, firstPosition + index));
+};
+
+// The translation table maps to cosmetic INCI names, so food labels are read as written
+const parseLabel = (ingredientList: string, mode: AnalysisMode, language: LabelLanguage): ParsedIngredient[] => {
+  const { ingredients, mayContain } = parseIngredientList(ingredientList);
+  const toItems = (nodes: IngredientListNode[]) =>
+    mode === 'food' ? toFoodLabelItems(nodes) : translateLabelItems(toLabelItems(nodes), language);
+  const listed = toParsedIngredients(toItems(ingredients), false, 1);
+  return [...listed, ...toParsedIngredients(toItems(mayContain), true, listed.length + 1)];
 };
 
-const getCommonUse = (ingredient: string): string => {
-  const uses: { [key: string]: string[] } = {
-    'Moisturizing agent': [
-      'glycerin', 'oil', 'butter', 'hyaluronic', 'dimethicone',
-      'squalane', 'ceramide', 'fatty acid', 'jojoba', 'aloe',
-      'sodium pca', 'urea', 'panthenol'
-    ],
-    'Cleansing agent': [
-      'lauryl', 'laureth', 'cocamide', 'sulfate', 'glucoside',
-      'betaine', 'sodium cocoyl', 'decyl', 'isethionate', 'taurate'
-    ],
-    'Preservative system': [
-      'paraben', 'phenoxyethanol', 'benzoate', 'formaldehyde',
-      'methylisothiazolinone', 'potassium sorbate', 'benzyl alcohol',
-      'sodium benzoate', 'ethylhexylglycerin'
-    ],
-    'Fragrance component': [
-      'fragrance', 'parfum', 'aroma', 'essential oil', 'limonene',
-      'linalool', 'citral', 'geraniol', 'citronellol', 'eugenol'
-    ],
-    'Sun protection': [
-      'benzophenone', 'avobenzone', 'titanium', 'zinc oxide',
-      'octinoxate', 'oxybenzone', 'octocrylene', 'homosalate',
-      'tinosorb', 'uvinul'
-    ],
-    'Antioxidant protection': [
-      'tocopherol', 'vitamin', 'retinol', 'ascorbic', 'niacinamide',
-      'flavonoid', 'polyphenol', 'resveratrol', 'ferulic', 'ubiquinone'
-    ],
-    'Thickening agent': [
-      'carbomer', 'xanthan', 'cellulose', 'guar', 'carrageenan',
-      'acacia', 'agar', 'alginate', 'hydroxypropyl', 'hydroxyethylcellulose'
-    ],
-    'Skin conditioning': [
-      'aloe', 'panthenol', 'allantoin', 'chamomile', 'calendula',
-      'green tea', 'collagen', 'peptide', 'ceramide', 'beta glucan'
-    ],
-    'pH balancing': [
-      'citric acid', 'lactic acid', 'sodium hydroxide', 'potassium hydroxide',
-      'triethanolamine', 'aminomethyl propanol'
-    ],
-    'Stabilizing agent': [
-      'edta', 'tetrasodium', 'disodium', 'trisodium', 'etidronic acid',
-      'sodium phytate', 'sodium gluconate'
-    ]
+const toDisplayName = (name: string): string =>
+  name.split(' ').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const analyzeIngredient = async (
+  { name, position, concentration }: ParsedIngredient,
+  lookupOptions: LookupOptions
+): Promise<Ingredient> => {
+  // Resolve aliases first so EWG is queried with the canonical INCI name
+  const resolution = resolveIngredient(name);
+  const dbMatch = resolution?.record;
+  const { data: ewgData, cache } = await lookupEWGData(dbMatch ? dbMatch.inciName : name, lookupOptions);
+  const patternMatch = matchRiskPattern(name);
+
+  const source: IngredientSource = ewgData ? 'ewg' : dbMatch ? 'database' : 'heuristic';
+  // EWG or database function first, then anything else the classification rules recognize
+  const classification = classifyIngredient(dbMatch ? dbMatch.inciName : name);
+  const matchedFunctions = Array.from(new Set([ewgData?.function ?? dbMatch?.category, ...classification.functions]
+    .filter((fn): fn is string => Boolean(fn))));
+  const functions = matchedFunctions.length > 0 ? matchedFunctions : [DEFAULT_FUNCTION];
+  const ingredientFunction = functions[0];
+  const baseScore = ewgData?.score ?? dbMatch?.hazard.baseScore ?? patternMatch?.score ?? DEFAULT_SCORE;
+  const baseConcerns = ewgData?.concerns.length
+    ? ewgData.concerns
+    : dbMatch ? dbMatch.hazard.concerns : [getDefaultConcern(baseScore)];
+
+  const { productType } = lookupOptions;
+  const { score, adjustments } = applyProductContext(
+    { recordId: dbMatch?.id, category: dbMatch?.category ?? ingredientFunction, score: baseScore },
+    productType
+  );
+  const contextConcerns = adjustments.filter(({ scoreDelta }) => scoreDelta > 0).map(({ note }) => note);
+
+  return {
+    name: toDisplayName(name),
+    canonicalName: dbMatch?.inciName,
+    position,
+    concentration,
+    function: ingredientFunction,
+    functions,
+    ewgScore: score,
+    safetyLevel: getSafetyLevel(score, productType.thresholds),
+    concerns: [...baseConcerns, ...contextConcerns],
+    commonUse: ewgData?.commonUse || classification.commonUse,
+    scientificName: dbMatch?.scientificName,
+    benefits: dbMatch?.benefits ?? [],
+    restrictions: dbMatch?.restrictions ?? [],
+    naturalAlternatives: dbMatch?.naturalAlternatives ?? [],
+    researchLinks: dbMatch?.researchLinks ?? [],
+    source,
+    confidence: getConfidence(source, resolution, patternMatch !== null),
+    lookedUpAt: cache?.cachedAt ?? Date.now(),
+    scoreTrace: buildScoreTrace({ name, source, ewgData, cache, resolution, patternMatch, adjustments }),
+    regulatory: dbMatch?.regulatory,
+    skin: dbMatch?.skin,
+    origin: classifyOrigin(name, dbMatch?.inciName),
+    environmental: assessEnvironmentalImpact(name, dbMatch?.inciName),
+    fragranceAllergen: findFragranceAllergen(name, dbMatch?.inciName),
+    contextAdjustments: adjustments.length > 0 ? adjustments : undefined,
+    cache
   };
+};
 
-  const lowerIngredient = ingredient.toLowerCase();
-  for (const [use, keywords] of Object.entries(uses)) {
-    if (keywords.some(keyword => lowerIngredient.includes(keyword))) {
-      return use;
-    }
+/**
+ * Scores one food label item from the additive reference list. There is no
+ * EWG lookup or product-type context for food; ingredients that aren't
+ * additives are listed without a concern score.
+ */
+const analyzeFoodIngredient = ({ name, position, concentration, additiveCode, declaredClass }: ParsedIngredient): Ingredient => {
+  const additive = additiveCode ? findAdditiveByCode(additiveCode) : findAdditiveByName(name);
+  const labelName = additiveCode ? `INS ${additiveCode}` : toDisplayName(name);
+  const classLabel = declaredClass ? toDisplayName(declaredClass) : undefined;
+
+  if (!additive) {
+    const score = additiveCode ? UNKNOWN_ADDITIVE_SCORE : FOOD_INGREDIENT_SCORE;
+    return {
+      name: labelName,
+      position,
+      concentration,
+      function: classLabel ?? (additiveCode ? 'Food additive' : 'Food ingredient'),
+      functions: [classLabel ?? (additiveCode ? 'Food additive' : 'Food ingredient')],
+      ewgScore: score,
+      safetyLevel: getSafetyLevel(score),
+      concerns: additiveCode ? ['Additive code not found in the reference list'] : [],
+      commonUse: 'Food',
+      benefits: [],
+      restrictions: [],
+      naturalAlternatives: [],
+      researchLinks: [],
+      origin: classifyOrigin(labelName),
+      environmental: assessEnvironmentalImpact(labelName),
+      source: 'heuristic',
+      confidence: additiveCode ? CONFIDENCE.fallback : CONFIDENCE.pattern,
+      lookedUpAt: Date.now(),
+      scoreTrace: [{
+        kind: 'fallback',
+        applied: true,
+        score,
+        description: additiveCode
+          ? `INS ${additiveCode} is not in the food additive list (v${foodAdditives.version}), so it gets a neutral score`
+          : 'Not a listed food additive, so it is scored as an ordinary food ingredient'
+      }]
+    };
   }
 
-  return 'Various applications';
+  const concerns = additive.fssai.status === 'not-permitted'
+    ? [...additive.concerns, 'Not permitted in food by FSSAI']
+    : additive.concerns;
+
+  return {
+    name: labelName,
+    canonicalName: additive.name,
+    position,
+    concentration,
+    function: classLabel ?? additive.functionalClasses[0] ?? 'Food additive',
+    functions: classLabel ? [classLabel] : additive.functionalClasses,
+    ewgScore: additive.score,
+    safetyLevel: getSafetyLevel(additive.score),
+    concerns: concerns.length > 0 ? concerns : [getDefaultConcern(additive.score)],
+    commonUse: additive.functionalClasses.join(', '),
+    benefits: [],
+    restrictions: additive.fssai.notes ? [additive.fssai.notes] : [],
+    naturalAlternatives: [],
+    researchLinks: [],
+    origin: classifyOrigin(`INS ${additive.ins}`, additive.name),
+    environmental: assessEnvironmentalImpact(additive.name),
+    source: 'database',
+    confidence: CONFIDENCE.database,
+    lookedUpAt: Date.now(),
+    scoreTrace: [{
+      kind: 'additive',
+      applied: true,
+      score: additive.score,
+      description: additiveCode
+        ? `Food additive list (v${foodAdditives.version}) entry for INS ${additive.ins}, ${additive.name}`
+        : `Food additive list (v${foodAdditives.version}) entry for INS ${additive.ins}, matched by name "${name}"`
+    }],
+    additive: toAdditiveInfo(additive)
+  };
 };
 
-export const analyzeIngredients = async (ingredientList: string): Promise<Ingredient[]> => {
-  const ingredientsArray = ingredientList
-    .toLowerCase()
-    .split(/[,;\n]+/)
-    .map(item => item.trim())
-    .filter(item => item && item.length > 1);
+// "Aqua (Water)" restates the parent rather than declaring a sub-ingredient
+const isRestatement = (parent: Ingredient, child: Ingredient): boolean =>
+  Boolean(child.canonicalName) && child.canonicalName === parent.canonicalName;
+
+/**
+ * Attaches analyzed sub-ingredients to their parent. A compound scores at
+ * least as high as its worst sub-ingredient, and when the parent's own score
+ * was only a guess ("extract", "emulsifier") the sub-ingredients set it.
+ */
+const combineWithChildren = (parent: Ingredient, children: Ingredient[], thresholds?: SafetyThresholds): Ingredient => {
+  const declared = children.filter(child => !isRestatement(parent, child));
+  if (declared.length === 0) return parent;
+
+  const highest = declared.reduce((top, child) => (child.ewgScore > top.ewgScore ? child : top));
+  const parentGuessed = parent.source === 'heuristic';
+  const score = parentGuessed ? highest.ewgScore : Math.max(parent.ewgScore, highest.ewgScore);
+
+  return {
+    ...parent,
+    ewgScore: score,
+    safetyLevel: getSafetyLevel(score, thresholds),
+    children: declared,
+    scoreTrace: [...parent.scoreTrace, {
+      kind: 'children',
+      applied: score !== parent.ewgScore,
+      score: highest.ewgScore,
+      description: parentGuessed
+        ? `"${parent.name}" was only guessed, so its highest-scoring sub-ingredient, ${highest.name}, sets the score`
+        : `Highest-scoring sub-ingredient is ${highest.name}`
+    }]
+  };
+};
 
-  const analyzedIngredients: Ingredient[] = [];
+const describeTranslation = (item: ParsedIngredient, language: LabelLanguage): ScoreTraceStep[] => {
+  if (item.translatedFrom) {
+    return [{
+      kind: 'translation',
+      applied: true,
+      description: `Translated ${getLanguageLabel(language)} "${item.translatedFrom.original}" to INCI "${toDisplayName(item.name)}"`
+    }];
+  }
+  if (language === DEFAULT_LANGUAGE) return [];
+  return [{ kind: 'translation', applied: false, description: `Kept as written; no ${getLanguageLabel(language)} translation applied` }];
+};
 
-  for (const name of ingredientsArray) {
-    const ewgData = await fetchEWGData(name);
-    const dbMatch = findIngredientInDatabase(name);
-    
-    analyzedIngredients.push({
-      name: name.split(' ').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
-      function: ewgData?.function || (dbMatch ? dbMatch.category : getIngredientFunction(name)),
-      ewgScore: ewgData?.ewgScore || (dbMatch ? dbMatch.baseScore : calculateDefaultScore(name)),
-      safetyLevel: ewgData?.safetyLevel || (dbMatch ? getSafetyLevel(dbMatch.baseScore) : getSafetyLevel(calculateDefaultScore(name))),
-      reasonForConcern: ewgData?.reasonForConcern || (dbMatch ? dbMatch.concerns.join(', ') : getDefaultConcern(calculateDefaultScore(name))),
-      commonUse: ewgData?.commonUse || getCommonUse(name),
-      scientificName: dbMatch?.scientificName,
-      benefits: dbMatch?.benefits?.join(', '),
-      restrictions: dbMatch?.restrictions?.join(', '),
-      naturalAlternatives: dbMatch?.naturalAlternatives?.join(', '),
-      researchLinks: dbMatch?.researchLinks?.join('\n')
-    });
+const analyzeLabelItem = async (
+  item: ParsedIngredient,
+  mode: AnalysisMode,
+  language: LabelLanguage,
+  lookupOptions: LookupOptions
+): Promise<Ingredient> => {
+  const analyzed = mode === 'food' ? analyzeFoodIngredient(item) : await analyzeIngredient(item, lookupOptions);
+  const ingredient: Ingredient = {
+    ...analyzed,
+    mayContain: item.mayContain,
+    translatedFrom: item.translatedFrom,
+    scoreTrace: [...(mode === 'food' ? [] : describeTranslation(item, language)), ...analyzed.scoreTrace]
+  };
+
+  // Sub-ingredients are looked up one at a time so a compound never exceeds its worker's share
+  const children: Ingredient[] = [];
+  for (const child of item.children) {
+    lookupOptions.signal?.throwIfAborted();
+    children.push(await analyzeLabelItem(child, mode, language, lookupOptions));
   }
 
+  const thresholds = mode === 'food' ? undefined : lookupOptions.productType.thresholds;
+  return combineWithChildren(ingredient, children, thresholds);
+};
+
+/**
+ * Analyzes a comma/semicolon/newline separated ingredient list.
+ *
+ * Lookups run with bounded concurrency; `onProgress` fires as each ingredient
+ * completes (in completion order, with its list index) so callers can render
+ * partial results. The returned array is always in label order. Aborting the
+ * signal rejects with the signal's reason. EWG lookups go through the
+ * IndexedDB cache unless `useCache` is false; `refresh` looks every
+ * ingredient up again even when its cache entry is fresh. Scores and safety levels are
+ * adjusted for `productType` (exposure route, inhalation, baby, lip).
+ * In `food` mode the list is read as a food label and additives are scored
+ * from their INS/E numbers instead.
+ *
+ * Bracketed sub-ingredients are analyzed as `children` of their parent, and
+ * "may contain" / "+/-" items come last with `mayContain` set. In cosmetic
+ * mode French, German, Spanish and Hindi names are translated to INCI first;
+ * `language` defaults to detecting the label language from the text.
+ */
+export const analyzeIngredients = async (
+  ingredientList: string,
+  {
+    concurrency = DEFAULT_CONCURRENCY,
+    signal,
+    onProgress,
+    cacheTtl = DEFAULT_CACHE_TTL,
+    useCache = true,
+    refresh = false,
+    productType: productTypeId = DEFAULT_PRODUCT_TYPE,
+    mode = 'cosmetic',
+    language: requestedLanguage = 'auto'
+  }: AnalyzeOptions = {}
+): Promise<Ingredient[]> => {
+  const language = requestedLanguage === 'auto' ? detectLabelLanguage(ingredientList).language : requestedLanguage;
+  const ingredientsArray = parseLabel(ingredientList, mode, language);
+  const productType = getProductType(productTypeId);
+
+  const total = ingredientsArray.length;
+  const analyzedIngredients: Ingredient[] = new Array(total);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (nextIndex < total) {
+      signal?.throwIfAborted();
+      const index = nextIndex++;
+      const ingredient = await analyzeLabelItem(ingredientsArray[index], mode, language, { signal, cacheTtl, useCache, refresh, productType });
+      // Cache hits resolve without checking the signal, so stop here before reporting
+      signal?.throwIfAborted();
+
+      analyzedIngredients[index] = ingredient;
+      completed++;
+      onProgress?.({ index, ingredient, completed, total });
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, total));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  signal?.throwIfAborted();
+
   return analyzedIngredients;
-};
\ No newline at end of file
+};
@@ -0,0 +1,75 @@
+import { EWGLookupData } from '../types/ingredient';
+import { createStoreAccessor } from './indexedDbStore';
+
+const DB_NAME = 'nutrinexus-ingredients';
+const DB_VERSION = 1;
+const STORE_NAME = 'lookups';
+// Bump when EWGLookupData changes shape; older entries are then treated as misses
+const CACHE_SCHEMA_VERSION = 2;
+
+export const DEFAULT_CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // one week
+
+export interface CachedLookup {
+  key: string;
+  schemaVersion: number;
+  data: EWGLookupData;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+const withStore = createStoreAccessor({ dbName: DB_NAME, version: DB_VERSION, storeName: STORE_NAME, keyPath: 'key' });
+
+const toCacheKey = (ingredient: string) => ingredient.toLowerCase().trim();
+
+/**
+ * Returns the cached lookup for an ingredient, including expired entries so
+ * callers can fall back to stale data when offline. Cache failures are never
+ * fatal: they are logged and treated as a miss.
+ */
+export const getCachedLookup = async (ingredient: string): Promise<CachedLookup | null> => {
+  try {
+    const entry = await withStore<CachedLookup | undefined>('readonly', store => store.get(toCacheKey(ingredient)));
+    return entry?.schemaVersion === CACHE_SCHEMA_VERSION ? entry : null;
+  } catch (error) {
+    console.warn(`Error reading ingredient cache for ${ingredient}:`, error);
+    return null;
+  }
+};
+
+export const setCachedLookup = async (
+  ingredient: string,
+  data: EWGLookupData,
+  ttl: number = DEFAULT_CACHE_TTL
+): Promise<CachedLookup | null> => {
+  const cachedAt = Date.now();
+  const entry: CachedLookup = {
+    key: toCacheKey(ingredient),
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    data,
+    cachedAt,
+    expiresAt: cachedAt + ttl
+  };
+
+  try {
+    await withStore('readwrite', store => store.put(entry));
+    return entry;
+  } catch (error) {
+    console.warn(`Error writing ingredient cache for ${ingredient}:`, error);
+    return null;
+  }
+};
+
+export const isCacheEntryFresh = (entry: CachedLookup, now: number = Date.now()): boolean =>
+  entry.expiresAt > now;
+
+export const clearIngredientCache = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
+
+export const countCachedLookups = async (): Promise<number> => {
+  try {
+    return await withStore('readonly', store => store.count());
+  } catch {
+    return 0;
+  }
+};
@@ -0,0 +1,119 @@
+import { IngredientMatchType, IngredientRecord, IngredientResolution } from '../types/ingredientDataset';
+import { ingredientDataset, normalizeIngredientName } from './ingredientDataset';
+
+interface AliasTarget {
+  record: IngredientRecord;
+  matchType: IngredientMatchType;
+}
+
+// Abbreviations are too short to fuzzy match safely ("sls" is one edit from "sles")
+const FUZZY_MATCH_TYPES: IngredientMatchType[] = ['id', 'inci', 'synonym'];
+const FUZZY_THRESHOLD = 0.8;
+// Aliases with numbers are codes: "ci 77491" is one digit from "ci 77891" but a different pigment
+const NUMBERED_ALIAS = /\d/;
+
+const buildAliasIndex = (): Map<string, AliasTarget> => {
+  const index = new Map<string, AliasTarget>();
+
+  const add = (alias: string, record: IngredientRecord, matchType: IngredientMatchType) => {
+    const key = normalizeIngredientName(alias);
+    // Keep the most specific match type when an entry repeats an alias
+    if (key && !index.has(key)) {
+      index.set(key, { record, matchType });
+    }
+  };
+
+  ingredientDataset.entries.forEach(record => {
+    add(record.id, record, 'id');
+    add(record.inciName, record, 'inci');
+    record.synonyms.forEach(synonym => add(synonym, record, 'synonym'));
+    record.abbreviations?.forEach(abbreviation => add(abbreviation, record, 'abbreviation'));
+    record.casNumbers.forEach(cas => add(cas, record, 'cas'));
+  });
+
+  return index;
+};
+
+const aliasIndex = buildAliasIndex();
+
+const calculateStringSimilarity = (str1: string, str2: string): number => {
+  const longer = str1.length > str2.length ? str1 : str2;
+  const shorter = str1.length > str2.length ? str2 : str1;
+
+  if (longer.length === 0) return 1.0;
+
+  const longerLength = longer.length;
+  return (longerLength - editDistance(longer, shorter)) / parseFloat(longerLength.toString());
+};
+
+const editDistance = (str1: string, str2: string): number => {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+
+  for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
+  for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
+
+  for (let j = 1; j <= str2.length; j++) {
+    for (let i = 1; i <= str1.length; i++) {
+      const substitutionCost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1,
+        matrix[j - 1][i] + 1,
+        matrix[j - 1][i - 1] + substitutionCost
+      );
+    }
+  }
+
+  return matrix[str2.length][str1.length];
+};
+
+const resolveExact = (name: string): IngredientResolution | null => {
+  const target = aliasIndex.get(name);
+  return target ? { ...target, matchedAlias: name } : null;
+};
+
+const resolveFuzzy = (name: string): IngredientResolution | null => {
+  let best: IngredientResolution | null = null;
+  let highestMatchScore = 0;
+
+  for (const [alias, target] of aliasIndex) {
+    if (!FUZZY_MATCH_TYPES.includes(target.matchType) || NUMBERED_ALIAS.test(alias)) continue;
+
+    const similarity = calculateStringSimilarity(name, alias);
+    if (similarity > highestMatchScore && similarity > FUZZY_THRESHOLD) {
+      highestMatchScore = similarity;
+      best = { record: target.record, matchedAlias: alias, matchType: 'fuzzy' };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Maps an ingredient as printed on a label (INCI, trade or common name,
+ * abbreviation or CAS number) to its canonical dataset entry.
+ *
+ * Dual declarations such as "Aqua/Water/Eau" are tried as a whole first and
+ * then part by part. Exact alias hits always win over fuzzy matches.
+ */
+export const resolveIngredient = (name: string): IngredientResolution | null => {
+  const normalized = normalizeIngredientName(name);
+  if (!normalized) return null;
+
+  const candidates = [
+    normalized,
+    ...normalized.split('/').map(normalizeIngredientName).filter(Boolean)
+  ];
+
+  for (const candidate of candidates) {
+    const exact = resolveExact(candidate);
+    if (exact) return exact;
+  }
+
+  for (const candidate of candidates) {
+    const fuzzy = resolveFuzzy(candidate);
+    if (fuzzy) return fuzzy;
+  }
+
+  return null;
+};
+
@@ -0,0 +1,55 @@
+import { ClassificationRule, ClassificationRuleSet, IngredientClassification } from '../types/classification';
+import { containsTerm, tokenizeName } from './textMatching';
+import rawRules from '../data/classificationRules.json';
+
+const ruleMatches = (tokens: string[], rule: ClassificationRule): boolean =>
+  rule.terms.some(term => containsTerm(tokens, term)) &&
+  !(rule.unless ?? []).some(term => containsTerm(tokens, term));
+
+const classifyWith = (name: string, ruleSet: ClassificationRuleSet): IngredientClassification => {
+  const tokens = tokenizeName(name);
+  const matched = ruleSet.rules
+    .filter(rule => ruleMatches(tokens, rule))
+    .sort((a, b) => b.priority - a.priority);
+
+  return {
+    functions: Array.from(new Set(matched.map(rule => rule.function))),
+    commonUse: matched[0]?.commonUse ?? ruleSet.defaults.commonUse,
+    ruleIds: matched.map(rule => rule.id)
+  };
+};
+
+/**
+ * Checks the classification rule file at startup: ids must be unique and
+ * every rule needs a function, common use, priority and at least one term.
+ */
+const validateClassificationRules = (data: ClassificationRuleSet): ClassificationRuleSet => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  data.rules.forEach(rule => {
+    if (ids.has(rule.id)) errors.push(`duplicate rule id "${rule.id}"`);
+    ids.add(rule.id);
+
+    if (!rule.function || !rule.commonUse) errors.push(`${rule.id}: function and commonUse are required`);
+    if (typeof rule.priority !== 'number') errors.push(`${rule.id}: priority must be a number`);
+    if (rule.terms.length === 0) errors.push(`${rule.id}: needs at least one term`);
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid classification rules:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+const classificationRules = validateClassificationRules(rawRules as ClassificationRuleSet);
+
+export const DEFAULT_FUNCTION = classificationRules.defaults.function;
+
+/**
+ * Classifies an ingredient name into every function whose rule matches,
+ * highest priority first, plus the common use of the top rule.
+ */
+export const classifyIngredient = (name: string): IngredientClassification =>
+  classifyWith(name, classificationRules);
@@ -0,0 +1,248 @@
+import { IngredientDataset, IngredientRecord } from '../types/ingredientDataset';
+import rawDataset from '../data/ingredients.json';
+import { isJurisdiction, regulatoryStatusLevels } from './regulatory';
+
+// Bump when the dataset shape changes in a way older loaders can't read
+export const SUPPORTED_SCHEMA_VERSION = 1;
+
+const CAS_PATTERN = /^\d{2,7}-\d{2}-\d$/;
+const EC_PATTERN = /^\d{3}-\d{3}-\d$/;
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// CAS numbers carry a check digit: the weighted sum of the other digits, mod 10
+const isValidCasNumber = (cas: string): boolean => {
+  if (!CAS_PATTERN.test(cas)) return false;
+
+  const digits = cas.replace(/-/g, '');
+  const checkDigit = Number(digits[digits.length - 1]);
+  const body = digits.slice(0, -1).split('').reverse();
+  const sum = body.reduce((acc, digit, i) => acc + Number(digit) * (i + 1), 0);
+
+  return sum % 10 === checkDigit;
+};
+
+// EC numbers use a similar check digit, weighted left to right, mod 11
+const isValidEcNumber = (ec: string): boolean => {
+  if (!EC_PATTERN.test(ec)) return false;
+
+  const digits = ec.replace(/-/g, '');
+  const checkDigit = Number(digits[digits.length - 1]);
+  const sum = digits.slice(0, -1).split('').reduce((acc, digit, i) => acc + Number(digit) * (i + 1), 0);
+
+  return sum % 11 === checkDigit;
+};
+
+const validateEntry = (entry: unknown, index: number, errors: string[]): void => {
+  const at = `entries[${index}]`;
+
+  if (!isRecord(entry)) {
+    errors.push(`${at} must be an object`);
+    return;
+  }
+
+  const label = typeof entry.id === 'string' ? `${at} (${entry.id})` : at;
+
+  if (typeof entry.id !== 'string' || !entry.id.trim()) {
+    errors.push(`${at}.id must be a non-empty string`);
+  } else if (entry.id !== entry.id.toLowerCase().trim()) {
+    errors.push(`${label}.id must be lowercase and trimmed`);
+  }
+
+  if (typeof entry.inciName !== 'string' || !entry.inciName.trim()) {
+    errors.push(`${label}.inciName must be a non-empty string`);
+  }
+
+  if (typeof entry.category !== 'string' || !entry.category.trim()) {
+    errors.push(`${label}.category must be a non-empty string`);
+  }
+
+  if (!isStringArray(entry.casNumbers)) {
+    errors.push(`${label}.casNumbers must be an array of strings`);
+  } else {
+    entry.casNumbers
+      .filter(cas => !isValidCasNumber(cas))
+      .forEach(cas => errors.push(`${label}.casNumbers has invalid CAS number "${cas}"`));
+  }
+
+  if (!isStringArray(entry.ecNumbers)) {
+    errors.push(`${label}.ecNumbers must be an array of strings`);
+  } else {
+    entry.ecNumbers
+      .filter(ec => !isValidEcNumber(ec))
+      .forEach(ec => errors.push(`${label}.ecNumbers has invalid EC number "${ec}"`));
+  }
+
+  if (!isStringArray(entry.synonyms)) {
+    errors.push(`${label}.synonyms must be an array of strings`);
+  }
+
+  if (entry.abbreviations !== undefined && !isStringArray(entry.abbreviations)) {
+    errors.push(`${label}.abbreviations must be an array of strings`);
+  }
+
+  if (!isRecord(entry.hazard)) {
+    errors.push(`${label}.hazard must be an object`);
+  } else {
+    const { baseScore, concerns } = entry.hazard;
+    if (typeof baseScore !== 'number' || !Number.isInteger(baseScore) || baseScore < 1 || baseScore > 10) {
+      errors.push(`${label}.hazard.baseScore must be an integer from 1 to 10`);
+    }
+    if (!isStringArray(concerns)) {
+      errors.push(`${label}.hazard.concerns must be an array of strings`);
+    }
+  }
+
+  if (entry.skin !== undefined) {
+    if (!isRecord(entry.skin)) {
+      errors.push(`${label}.skin must be an object`);
+    } else {
+      (['comedogenicity', 'irritancy'] as const).forEach(field => {
+        const rating = (entry.skin as Record<string, unknown>)[field];
+        if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 0 || rating > 5) {
+          errors.push(`${label}.skin.${field} must be an integer from 0 to 5`);
+        }
+      });
+    }
+  }
+
+  if (!isStringArray(entry.benefits)) {
+    errors.push(`${label}.benefits must be an array of strings`);
+  }
+
+  if (entry.scientificName !== undefined && typeof entry.scientificName !== 'string') {
+    errors.push(`${label}.scientificName must be a string`);
+  }
+
+  (['restrictions', 'naturalAlternatives', 'researchLinks'] as const).forEach(field => {
+    if (entry[field] !== undefined && !isStringArray(entry[field])) {
+      errors.push(`${label}.${field} must be an array of strings`);
+    }
+  });
+
+  if (entry.regulatory !== undefined) {
+    if (!isRecord(entry.regulatory)) {
+      errors.push(`${label}.regulatory must be an object keyed by jurisdiction`);
+    } else {
+      Object.entries(entry.regulatory).forEach(([jurisdiction, status]) => {
+        const path = `${label}.regulatory.${jurisdiction}`;
+        if (!isJurisdiction(jurisdiction)) {
+          errors.push(`${path} is not a known jurisdiction`);
+        }
+        if (!isRecord(status) || !(regulatoryStatusLevels as string[]).includes(String(status.status))) {
+          errors.push(`${path}.status must be one of ${regulatoryStatusLevels.join(', ')}`);
+          return;
+        }
+        if (status.maxConcentration !== undefined &&
+          (typeof status.maxConcentration !== 'number' || status.maxConcentration <= 0 || status.maxConcentration > 100)) {
+          errors.push(`${path}.maxConcentration must be a percentage above 0 and at most 100`);
+        }
+        if (status.status !== 'restricted' && status.maxConcentration !== undefined) {
+          errors.push(`${path}.maxConcentration only applies to restricted ingredients`);
+        }
+      });
+    }
+  }
+
+  if (!isRecord(entry.provenance)) {
+    errors.push(`${label}.provenance must be an object`);
+  } else {
+    if (typeof entry.provenance.source !== 'string' || !entry.provenance.source.trim()) {
+      errors.push(`${label}.provenance.source must be a non-empty string`);
+    }
+    if (typeof entry.provenance.reviewedAt !== 'string' || !DATE_PATTERN.test(entry.provenance.reviewedAt)) {
+      errors.push(`${label}.provenance.reviewedAt must be a YYYY-MM-DD date`);
+    }
+  }
+};
+
+/**
+ * Checks an untrusted dataset against the ingredient schema and returns it typed.
+ * Throws with every problem found so data maintainers can fix a file in one pass.
+ */
+export const validateIngredientDataset = (data: unknown): IngredientDataset => {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    throw new Error('Invalid ingredient dataset: expected an object');
+  }
+
+  if (data.schemaVersion !== SUPPORTED_SCHEMA_VERSION) {
+    errors.push(`schemaVersion ${String(data.schemaVersion)} is not supported (expected ${SUPPORTED_SCHEMA_VERSION})`);
+  }
+
+  if (typeof data.version !== 'string' || !SEMVER_PATTERN.test(data.version)) {
+    errors.push('version must be a semantic version such as "1.2.0"');
+  }
+
+  if (typeof data.updatedAt !== 'string' || !DATE_PATTERN.test(data.updatedAt)) {
+    errors.push('updatedAt must be a YYYY-MM-DD date');
+  }
+
+  if (!Array.isArray(data.entries)) {
+    errors.push('entries must be an array');
+  } else {
+    data.entries.forEach((entry, index) => validateEntry(entry, index, errors));
+
+    const seen = new Set<string>();
+    data.entries.forEach(entry => {
+      if (isRecord(entry) && typeof entry.id === 'string') {
+        if (seen.has(entry.id)) errors.push(`duplicate entry id "${entry.id}"`);
+        seen.add(entry.id);
+      }
+    });
+
+    // An alias may only ever point at one entry, otherwise lookups depend on file order
+    const aliasOwners = new Map<string, string>();
+    data.entries.forEach(entry => {
+      if (!isRecord(entry) || typeof entry.id !== 'string') return;
+
+      const aliases = [entry.id, entry.inciName, entry.synonyms, entry.abbreviations]
+        .flat()
+        .filter((alias): alias is string => typeof alias === 'string')
+        .map(normalizeIngredientName);
+
+      new Set(aliases).forEach(alias => {
+        const owner = aliasOwners.get(alias);
+        if (owner && owner !== entry.id) {
+          errors.push(`alias "${alias}" is used by both "${owner}" and "${entry.id}"`);
+        }
+        aliasOwners.set(alias, entry.id as string);
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ingredient dataset:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data as unknown as IngredientDataset;
+};
+
+/**
+ * Normalizes a label fragment for alias lookups: case, whitespace, typographic
+ * punctuation and the organic/certification markers labels tack onto names.
+ */
+export const normalizeIngredientName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[\u2010-\u2015]/g, '-')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[*\u2020\u2021\u00b9\u00b2\u00b3]+/g, '')
+    .replace(/\s*-\s*/g, '-')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.:'"-]+|[\s.:'"-]+$/g, '');
+
+// Validated once when the module is first imported, i.e. at app startup
+export const ingredientDataset = validateIngredientDataset(rawDataset);
+
+const entriesById = new Map(ingredientDataset.entries.map(entry => [entry.id, entry]));
+
+export const getDatasetEntry = (id: string): IngredientRecord | null =>
+  entriesById.get(id) ?? null;
@@ -0,0 +1,147 @@
+import { IngredientListNode, ParsedIngredientList } from '../types/ingredientList';
+
+// Matches a declared concentration such as "5%", "0.5 %" or "(0,5%)"
+const CONCENTRATION_PATTERN = /\(?\s*(\d+(?:[.,]\d+)?)\s*%\s*\)?/;
+const PERCENT_ONLY_PATTERN = /^\s*(\d+(?:[.,]\d+)?)\s*%\s*$/;
+
+// Includes the French, German, Spanish and Hindi headers handled by ingredientTranslation
+const LABEL_PREFIX_PATTERN = /^\s*(?:ingredients|ingr\.|composition|ingrédients|inhaltsstoffe|zutaten|ingredientes|सामग्री|घटक)\s*:\s*/;
+// "+/-", "±" and "may contain" introduce a list of colorants used in some shades only
+const MAY_CONTAIN_MARKER = String.raw`(?:\+\s*\/\s*-|±|\b(?:may\s+contain|peut\s+contenir|kann\s+enthalten|puede\s+contener)\b)(?:\s*\(\s*may\s+contain\s*\))?\s*:?`;
+const BRACKETED_MAY_CONTAIN_PATTERN = new RegExp(String.raw`[[(]\s*${MAY_CONTAIN_MARKER}([^\])]*)[\])]`, 'g');
+const TRAILING_MAY_CONTAIN_PATTERN = new RegExp(MAY_CONTAIN_MARKER);
+
+const OPENING_BRACKETS = '([';
+const CLOSING_BRACKETS = ')]';
+
+const parsePercent = (text: string): number | undefined => {
+  const value = parseFloat(text.replace(',', '.'));
+  return value <= 100 ? value : undefined;
+};
+
+/**
+ * Splits at commas, semicolons and newlines outside brackets. Commas between
+ * digits ("1,2-hexanediol", "0,5%") are not treated as separators.
+ */
+const splitTopLevel = (text: string): string[] => {
+  const items: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (OPENING_BRACKETS.includes(char)) depth++;
+    if (CLOSING_BRACKETS.includes(char)) depth = Math.max(0, depth - 1);
+
+    const isDecimalComma = char === ',' && /\d/.test(text[i - 1] ?? '') && /\d/.test(text[i + 1] ?? '');
+    if (depth === 0 && (char === ';' || char === '\n' || (char === ',' && !isDecimalComma))) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  return [...items, current];
+};
+
+/**
+ * Separates an item's own text from its top-level bracket groups. An
+ * unclosed group (OCR often drops the closing bracket) runs to the end.
+ * Groups in the middle of the name are INCI common-name glosses, as in
+ * "Cocos Nucifera (Coconut) Oil", and are dropped rather than returned.
+ */
+const extractGroups = (item: string): { outside: string; groups: string[] } => {
+  const closed: { text: string; end: number }[] = [];
+  let outside = '';
+  let group = '';
+  let depth = 0;
+
+  for (const char of item) {
+    if (OPENING_BRACKETS.includes(char)) {
+      if (depth > 0) group += char;
+      depth++;
+    } else if (CLOSING_BRACKETS.includes(char) && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        closed.push({ text: group, end: outside.length });
+        group = '';
+      } else {
+        group += char;
+      }
+    } else if (depth > 0) {
+      group += char;
+    } else {
+      outside += char;
+    }
+  }
+
+  const isGloss = ({ text, end }: { text: string; end: number }) =>
+    /[a-z]/.test(outside.slice(end)) && /[a-z]/.test(outside.slice(0, end)) && !/[\d,;%]/.test(text);
+  const groups = closed.filter(entry => !isGloss(entry)).map(({ text }) => text);
+
+  if (depth > 0) groups.push(group);
+  return { outside, groups };
+};
+
+const parseItem = (item: string): IngredientListNode[] => {
+  const { outside, groups } = extractGroups(item);
+  const children: IngredientListNode[] = [];
+  let concentration: number | undefined;
+
+  groups.forEach(group => {
+    const percent = group.match(PERCENT_ONLY_PATTERN);
+    if (percent) {
+      concentration ??= parsePercent(percent[1]);
+    } else {
+      children.push(...parseNodes(group));
+    }
+  });
+
+  const match = outside.match(CONCENTRATION_PATTERN);
+  if (match) concentration ??= parsePercent(match[1]);
+  const name = (match ? outside.replace(match[0], ' ') : outside)
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.:*-]+|[\s.:*।]+$/g, '');
+
+  // "(Limonene, Linalool)" with nothing in front: the contents are the ingredients
+  if (name.length <= 1) return children;
+
+  return [{ name, concentration, children }];
+};
+
+const parseNodes = (text: string): IngredientListNode[] => splitTopLevel(text).flatMap(parseItem);
+
+/**
+ * Parses a label into a tree of ingredients in label order. Bracketed
+ * contents become children ("Fragrance (Limonene, Linalool)") unless they
+ * are only a percentage, and "+/-" / "may contain" lists are returned
+ * separately since those ingredients are not in every variant.
+ */
+export const parseIngredientList = (ingredientList: string): ParsedIngredientList => {
+  const mayContainParts: string[] = [];
+
+  let body = ingredientList
+    .toLowerCase()
+    .replace(LABEL_PREFIX_PATTERN, '')
+    // Trade-name blends: "Glyceryl Stearate (and) PEG-100 Stearate"
+    .replace(/\s*\(\s*and\s*\)\s*/g, ', ')
+    // Food additive sub-variants: "150(d)" -> "150d", "500(ii)" -> "500"
+    .replace(/\b(\d{3,4})\s*\(\s*([a-f])\s*\)/g, '$1$2')
+    .replace(/\b(\d{3,4})\s*\(\s*(?:i{1,3}|iv|vi?)\s*\)/g, '$1')
+    .replace(BRACKETED_MAY_CONTAIN_PATTERN, (_, list: string) => {
+      mayContainParts.push(list);
+      return '';
+    });
+
+  const trailing = body.match(TRAILING_MAY_CONTAIN_PATTERN);
+  if (trailing?.index !== undefined) {
+    mayContainParts.push(body.slice(trailing.index + trailing[0].length));
+    body = body.slice(0, trailing.index);
+  }
+
+  return {
+    ingredients: parseNodes(body),
+    mayContain: parseNodes(mayContainParts.join(','))
+  };
+};
@@ -0,0 +1,112 @@
+import { Ingredient } from '../types/ingredient';
+import {
+  CompatibilityVerdict,
+  DietaryCompatibility,
+  IngredientOrigin,
+  OriginClassification,
+  OriginRule,
+  OriginRuleSet
+} from '../types/origin';
+import { containsTerm, tokenizeName } from './textMatching';
+import { flattenIngredients } from './ingredientTree';
+import rawRules from '../data/ingredientOrigins.json';
+
+const ORIGINS: IngredientOrigin[] = ['plant', 'synthetic', 'mineral', 'animal', 'possibly-animal', 'unknown'];
+
+export const originLabels: Record<IngredientOrigin, string> = {
+  plant: 'Plant',
+  synthetic: 'Synthetic',
+  mineral: 'Mineral',
+  animal: 'Animal-derived',
+  'possibly-animal': 'Possibly animal-derived',
+  unknown: 'Unknown origin',
+};
+
+const ruleMatches = (tokenSets: string[][], rule: OriginRule): boolean =>
+  tokenSets.some(tokens =>
+    rule.terms.some(term => containsTerm(tokens, term)) &&
+    !(rule.unless ?? []).some(term => containsTerm(tokens, term))
+  );
+
+const classifyWith = (names: string[], ruleSet: OriginRuleSet): OriginClassification => {
+  const tokenSets = names.map(tokenizeName);
+  const rule = ruleSet.rules
+    .filter(candidate => ruleMatches(tokenSets, candidate))
+    .reduce<OriginRule | null>((best, candidate) => (!best || candidate.priority > best.priority ? candidate : best), null);
+
+  return rule
+    ? { origin: rule.origin, ruleId: rule.id, note: rule.note, halal: rule.halal }
+    : { origin: 'unknown' };
+};
+
+/**
+ * Checks the origin rule file at startup: ids must be unique, origins and
+ * halal concerns known and every rule needs at least one term.
+ */
+const validateOriginRules = (data: OriginRuleSet): OriginRuleSet => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  data.rules.forEach(rule => {
+    if (ids.has(rule.id)) errors.push(`duplicate rule id "${rule.id}"`);
+    ids.add(rule.id);
+
+    if (!ORIGINS.includes(rule.origin) || rule.origin === 'unknown') errors.push(`${rule.id}: invalid origin "${rule.origin}"`);
+    if (typeof rule.priority !== 'number') errors.push(`${rule.id}: priority must be a number`);
+    if (rule.terms.length === 0) errors.push(`${rule.id}: needs at least one term`);
+    if (rule.halal !== undefined && rule.halal !== 'not-halal' && rule.halal !== 'doubtful') {
+      errors.push(`${rule.id}: unknown halal concern "${rule.halal}"`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ingredient origin rules:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+const originRules = validateOriginRules(rawRules as OriginRuleSet);
+
+/**
+ * Classifies an ingredient as plant, synthetic, mineral, animal-derived or
+ * possibly animal-derived from its label and canonical names; the highest
+ * priority matching rule wins. Unrecognized names are "unknown".
+ */
+export const classifyOrigin = (...names: (string | undefined)[]): OriginClassification =>
+  classifyWith(names.filter((name): name is string => Boolean(name)), originRules);
+
+const toVerdict = (offending: Ingredient[], uncertain: Ingredient[]): CompatibilityVerdict => ({
+  status: offending.length > 0 ? 'incompatible' : uncertain.length > 0 ? 'uncertain' : 'compatible',
+  offending,
+  uncertain
+});
+
+/**
+ * Product-level vegan and halal verdicts from each ingredient's origin,
+ * counting declared sub-ingredients. Anything in a "may contain" list can
+ * only make a product uncertain, never incompatible, since it isn't in every
+ * variant. These cover ingredients only; they say nothing about animal
+ * testing or certification.
+ */
+export const assessDietaryCompatibility = (ingredients: Ingredient[]): DietaryCompatibility => {
+  const all = flattenIngredients(ingredients.filter(ingredient => !ingredient.mayContain));
+  const mayContain = flattenIngredients(ingredients.filter(ingredient => ingredient.mayContain));
+
+  const isAnimal = (ingredient: Ingredient) => ingredient.origin.origin === 'animal';
+  const isPossiblyAnimal = (ingredient: Ingredient) => ingredient.origin.origin === 'possibly-animal';
+  const isNotHalal = (ingredient: Ingredient) => ingredient.origin.halal === 'not-halal';
+  const isDoubtful = (ingredient: Ingredient) => ingredient.origin.halal === 'doubtful';
+
+  return {
+    vegan: toVerdict(
+      all.filter(isAnimal),
+      [...all.filter(isPossiblyAnimal), ...mayContain.filter(ing => isAnimal(ing) || isPossiblyAnimal(ing))]
+    ),
+    halal: toVerdict(
+      all.filter(isNotHalal),
+      [...all.filter(isDoubtful), ...mayContain.filter(ing => isNotHalal(ing) || isDoubtful(ing))]
+    ),
+    unclassified: all.filter(ingredient => ingredient.origin.origin === 'unknown')
+  };
+};
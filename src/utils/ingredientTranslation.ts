@@ -0,0 +1,111 @@
+import { LabelLanguage, LanguageDetection, TranslationDataset } from '../types/translation';
+import { normalizeIngredientName } from './ingredientDataset';
+import rawTranslations from '../data/ingredientTranslations.json';
+
+export const DEFAULT_LANGUAGE: LabelLanguage = 'en';
+
+const DEVANAGARI_PATTERN = /[\u0900-\u097f]/;
+// Hindi labels are written in Devanagari, so the script alone is enough to tell
+const SCRIPT_EVIDENCE = 5;
+const MARKER_EVIDENCE = 3;
+// A single dictionary hit is too easily a stray word, so English wins until another language reaches this
+const MIN_EVIDENCE = 2;
+
+// OCR and hand-typed lists often drop accents: "glycerine" for "glycérine"
+const stripAccents = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+
+const toKey = (name: string): string => stripAccents(normalizeIngredientName(name));
+
+/**
+ * Checks the translation file at startup: every language needs a label and
+ * non-empty terms, and no two terms may collapse to the same lookup key.
+ */
+const validateTranslations = (data: TranslationDataset): TranslationDataset => {
+  const errors: string[] = [];
+
+  data.englishWords
+    .filter(word => !toKey(word))
+    .forEach(word => errors.push(`englishWords: empty entry "${word}"`));
+
+  Object.entries(data.languages).forEach(([language, dictionary]) => {
+    if (!dictionary) return;
+    if (!dictionary.label) errors.push(`${language}: label is required`);
+
+    const keys = new Set<string>();
+    Object.entries(dictionary.terms).forEach(([term, inciName]) => {
+      const key = toKey(term);
+      if (!key || !inciName.trim()) errors.push(`${language}: empty term or translation for "${term}"`);
+      if (keys.has(key)) errors.push(`${language}: "${term}" duplicates another term once accents are ignored`);
+      keys.add(key);
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ingredient translations:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+const translations = validateTranslations(rawTranslations as TranslationDataset);
+
+const englishWords = new Set(translations.englishWords.map(toKey));
+
+const termIndex = new Map(
+  Object.entries(translations.languages).map(([language, dictionary]) => [
+    language as LabelLanguage,
+    new Map(Object.entries(dictionary?.terms ?? {}).map(([term, inciName]) => [toKey(term), inciName]))
+  ])
+);
+
+export const labelLanguages: { id: LabelLanguage; label: string }[] = [
+  { id: 'en', label: 'English' },
+  ...Object.entries(translations.languages).map(([id, dictionary]) => ({
+    id: id as LabelLanguage,
+    label: dictionary?.label ?? id
+  }))
+];
+
+export const getLanguageLabel = (language: LabelLanguage): string =>
+  labelLanguages.find(({ id }) => id === language)?.label ?? language;
+
+/**
+ * Guesses the label language from its script, header words ("inhaltsstoffe",
+ * "ingrédients") and how many items are in each dictionary. Terms that are
+ * already INCI ("parfum") or also English ("perfume") say nothing about the
+ * language and are ignored. Another language needs at least MIN_EVIDENCE to
+ * take over from English.
+ */
+export const detectLabelLanguage = (text: string): LanguageDetection => {
+  const lowered = text.toLowerCase();
+  const items = lowered.split(/[,;\n()[\]]+/).map(toKey).filter(Boolean);
+  let best: LanguageDetection = { language: DEFAULT_LANGUAGE, evidence: 0 };
+
+  Object.entries(translations.languages).forEach(([id, dictionary]) => {
+    if (!dictionary) return;
+    const language = id as LabelLanguage;
+    const terms = termIndex.get(language);
+
+    let evidence = language === 'hi' && DEVANAGARI_PATTERN.test(text) ? SCRIPT_EVIDENCE : 0;
+    evidence += dictionary.markers.filter(marker => lowered.includes(marker)).length * MARKER_EVIDENCE;
+    evidence += items.filter(item => {
+      const inciName = terms?.get(item);
+      return inciName !== undefined && toKey(inciName) !== item && !englishWords.has(item);
+    }).length;
+
+    if (evidence >= MIN_EVIDENCE && evidence > best.evidence) best = { language, evidence };
+  });
+
+  return best;
+};
+
+/**
+ * Maps a localized ingredient name to its INCI name, or null when the
+ * dictionary has no entry (the name is then analyzed as written).
+ */
+export const translateIngredientName = (name: string, language: LabelLanguage): string | null => {
+  if (language === DEFAULT_LANGUAGE) return null;
+  const inciName = termIndex.get(language)?.get(toKey(name));
+  return inciName && toKey(inciName) !== toKey(name) ? inciName : null;
+};
@@ -0,0 +1,8 @@
+import { Ingredient } from '../types/ingredient';
+
+/**
+ * Lists every analyzed ingredient including declared sub-ingredients,
+ * each parent followed by its children.
+ */
+export const flattenIngredients = (ingredients: Ingredient[]): Ingredient[] =>
+  ingredients.flatMap(ingredient => [ingredient, ...flattenIngredients(ingredient.children ?? [])]);
@@ -0,0 +1,79 @@
+import { Ingredient } from '../types/ingredient';
+import { InteractionFinding, InteractionRuleSet, InteractionSeverity } from '../types/interaction';
+import { normalizeIngredientName } from './ingredientDataset';
+import { containsPhrase } from './textMatching';
+import { flattenIngredients } from './ingredientTree';
+import rawRules from '../data/interactionRules.json';
+
+const SEVERITIES: InteractionSeverity[] = ['high', 'moderate', 'low'];
+
+/**
+ * Checks the interaction rule file at startup: severities must be known and
+ * every condition must reference a defined ingredient group.
+ */
+const validateInteractionRules = (data: InteractionRuleSet): InteractionRuleSet => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  data.rules.forEach(rule => {
+    if (ids.has(rule.id)) errors.push(`duplicate rule id "${rule.id}"`);
+    ids.add(rule.id);
+
+    if (!SEVERITIES.includes(rule.severity)) {
+      errors.push(`${rule.id}: unknown severity "${rule.severity}"`);
+    }
+    if (rule.conditions.length === 0) {
+      errors.push(`${rule.id}: needs at least one condition`);
+    }
+    rule.conditions.forEach(({ group, minCount }) => {
+      if (!data.groups[group]) errors.push(`${rule.id}: unknown group "${group}"`);
+      if (!Number.isInteger(minCount) || minCount < 1) errors.push(`${rule.id}: minCount must be a positive integer`);
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid interaction rules:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+const interactionRules = validateInteractionRules(rawRules as InteractionRuleSet);
+
+const matchesGroup = (ingredient: Ingredient, members: string[]): boolean => {
+  const names = [ingredient.name, ingredient.canonicalName]
+    .filter((name): name is string => Boolean(name))
+    .map(normalizeIngredientName);
+
+  return members.some(member => {
+    const phrase = normalizeIngredientName(member);
+    return names.some(name => containsPhrase(name, phrase));
+  });
+};
+
+/**
+ * Runs the declarative interaction rules over one product's ingredients. A
+ * rule fires when every condition finds at least `minCount` distinct
+ * ingredients from its group, counting declared sub-ingredients. Findings
+ * are ordered by severity.
+ */
+export const evaluateInteractions = (ingredients: Ingredient[]): InteractionFinding[] => {
+  const findings: InteractionFinding[] = [];
+  const allIngredients = flattenIngredients(ingredients);
+
+  interactionRules.rules.forEach(rule => {
+    const involved = new Set<Ingredient>();
+
+    const satisfied = rule.conditions.every(({ group, minCount }) => {
+      const matches = allIngredients.filter(ingredient => matchesGroup(ingredient, interactionRules.groups[group]));
+      matches.forEach(ingredient => involved.add(ingredient));
+      return matches.length >= minCount;
+    });
+
+    if (satisfied) {
+      findings.push({ rule, ingredients: Array.from(involved) });
+    }
+  });
+
+  return findings.sort((a, b) => SEVERITIES.indexOf(a.rule.severity) - SEVERITIES.indexOf(b.rule.severity));
+};
@@ -0,0 +1,114 @@
+import { Ingredient } from '../types/ingredient';
+import { LifeStage, PregnancyDataset, PregnancyFlag, PregnancyFlagLevel, PregnancyRule } from '../types/pregnancy';
+import { normalizeIngredientName } from './ingredientDataset';
+import { containsPhrase } from './textMatching';
+import { flattenIngredients } from './ingredientTree';
+import rawDataset from '../data/pregnancySafety.json';
+
+export const lifeStages: { id: LifeStage; label: string }[] = [
+  { id: 'pregnancy', label: 'Pregnant' },
+  { id: 'breastfeeding', label: 'Breastfeeding' },
+];
+
+const FLAG_LEVELS: PregnancyFlagLevel[] = ['avoid', 'caution'];
+
+export const isLifeStage = (value: unknown): value is LifeStage =>
+  lifeStages.some(({ id }) => id === value);
+
+/**
+ * Checks the pregnancy dataset at startup: every rule needs members, at least
+ * one life stage with a known level, and a reference to back it up.
+ */
+const validatePregnancyDataset = (data: PregnancyDataset): PregnancyDataset => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  data.rules.forEach(rule => {
+    if (ids.has(rule.id)) errors.push(`duplicate rule id "${rule.id}"`);
+    ids.add(rule.id);
+
+    if (rule.members.length === 0) errors.push(`${rule.id}: needs at least one member`);
+    if (rule.references.length === 0) errors.push(`${rule.id}: needs at least one reference`);
+
+    const stages = Object.entries(rule.stages);
+    if (stages.length === 0) errors.push(`${rule.id}: needs at least one life stage`);
+    stages.forEach(([stage, level]) => {
+      if (!isLifeStage(stage)) errors.push(`${rule.id}: unknown life stage "${stage}"`);
+      if (!level || !FLAG_LEVELS.includes(level)) errors.push(`${rule.id}: unknown level "${level}" for ${stage}`);
+    });
+
+    if (rule.minConcentration !== undefined && !(rule.minConcentration > 0 && rule.minConcentration <= 100)) {
+      errors.push(`${rule.id}: minConcentration must be between 0 and 100`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid pregnancy safety dataset:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+const pregnancyDataset = validatePregnancyDataset(rawDataset as PregnancyDataset);
+
+const matchesRule = (ingredient: Ingredient, rule: PregnancyRule): boolean => {
+  const names = [ingredient.name, ingredient.canonicalName]
+    .filter((name): name is string => Boolean(name))
+    .map(normalizeIngredientName);
+
+  return rule.members.some(member => {
+    const phrase = normalizeIngredientName(member);
+    return names.some(name => containsPhrase(name, phrase));
+  });
+};
+
+const flagIngredient = (ingredient: Ingredient, rule: PregnancyRule, selected: LifeStage[]): PregnancyFlag | null => {
+  const { concentration } = ingredient;
+  const { minConcentration } = rule;
+
+  // Dose-dependent rules: a declared low strength is fine, an undeclared one is uncertain
+  if (minConcentration !== undefined && concentration !== undefined && concentration <= minConcentration) {
+    return null;
+  }
+  const doseUnknown = minConcentration !== undefined && concentration === undefined;
+
+  const stages = selected.flatMap(stage => {
+    const level = rule.stages[stage];
+    return level ? [{ stage, level: doseUnknown ? 'caution' as const : level }] : [];
+  });
+  if (stages.length === 0) return null;
+
+  return {
+    ingredient,
+    rule,
+    stages,
+    note: doseUnknown
+      ? `Strength not declared; only a concern above ${minConcentration}%`
+      : ingredient.mayContain ? 'Only present in some variants' : undefined
+  };
+};
+
+/**
+ * Flags ingredients commonly advised against during the selected life stages,
+ * from the curated pregnancy dataset. Sub-ingredients and "may contain" items
+ * are checked too. This is kept apart from the safety score: an ingredient can
+ * score well overall and still be best avoided while pregnant. "avoid" flags
+ * come first.
+ */
+export const findPregnancyFlags = (ingredients: Ingredient[], selected: LifeStage[]): PregnancyFlag[] => {
+  if (selected.length === 0) return [];
+
+  const flags: PregnancyFlag[] = [];
+  flattenIngredients(ingredients).forEach(ingredient => {
+    for (const rule of pregnancyDataset.rules) {
+      const flag = matchesRule(ingredient, rule) ? flagIngredient(ingredient, rule, selected) : null;
+      if (flag) {
+        flags.push(flag);
+        break;
+      }
+    }
+  });
+
+  const isAvoid = (flag: PregnancyFlag) => flag.stages.some(({ level }) => level === 'avoid');
+  return flags.sort((a, b) => Number(isAvoid(b)) - Number(isAvoid(a)));
+};
@@ -0,0 +1,75 @@
+import { Ingredient } from '../types/ingredient';
+import { ComparedIngredient, ComparedProduct, ProductComparison } from '../types/comparison';
+import { normalizeIngredientName } from './ingredientDataset';
+import { flattenIngredients } from './ingredientTree';
+import { calculateProductScore } from './productScoring';
+
+const HIGH_CONCERN_LEVEL = 'High Concern';
+
+// Same canonical name means the same ingredient, whatever each label called it
+const toKey = (ingredient: Ingredient): string =>
+  normalizeIngredientName(ingredient.canonicalName ?? ingredient.name);
+
+// Lines up the same ingredient across several lists; each entry has one slot per list
+export const alignIngredients = (lists: Ingredient[][]): ComparedIngredient[] => {
+  const byKey = new Map<string, ComparedIngredient>();
+
+  lists.forEach((ingredients, productIndex) => {
+    ingredients.forEach(ingredient => {
+      const key = toKey(ingredient);
+      let entry = byKey.get(key);
+      if (!entry) {
+        entry = { key, name: ingredient.canonicalName ?? ingredient.name, matches: lists.map(() => null) };
+        byKey.set(key, entry);
+      }
+      // Keep the first (highest-listed) occurrence per product
+      if (!entry.matches[productIndex]) entry.matches[productIndex] = ingredient;
+    });
+  });
+
+  return Array.from(byKey.values());
+};
+
+const countPresent = ({ matches }: ComparedIngredient): number => matches.filter(Boolean).length;
+
+const highestScore = ({ matches }: ComparedIngredient): number =>
+  Math.max(...matches.map(match => match?.ewgScore ?? 0));
+
+/**
+ * Lines up several analyzed products: each one's overall score, the
+ * ingredients two or more of them share, what only one of them contains and
+ * which product carries each high-concern ingredient. "May contain" items are
+ * left out; declared sub-ingredients count for the high-concern check.
+ */
+export const compareProducts = (products: { label: string; ingredients: Ingredient[] }[]): ProductComparison => {
+  const compared: ComparedProduct[] = products.map(({ label, ingredients }) => ({
+    label,
+    ingredients,
+    productScore: calculateProductScore(ingredients)
+  }));
+
+  const listed = products.map(({ ingredients }) => ingredients.filter(ingredient => !ingredient.mayContain));
+  const aligned = alignIngredients(listed);
+  const byPosition = (a: ComparedIngredient, b: ComparedIngredient) =>
+    Math.min(...a.matches.map(match => match?.position ?? Infinity)) -
+    Math.min(...b.matches.map(match => match?.position ?? Infinity));
+
+  const highConcern = alignIngredients(listed.map(flattenIngredients))
+    .map(entry => ({
+      ...entry,
+      matches: entry.matches.map(match => (match?.safetyLevel === HIGH_CONCERN_LEVEL ? match : null))
+    }))
+    .filter(entry => countPresent(entry) > 0)
+    .sort((a, b) => highestScore(b) - highestScore(a));
+
+  return {
+    products: compared,
+    shared: aligned.filter(entry => countPresent(entry) > 1).sort(byPosition),
+    unique: listed.map((_, productIndex) =>
+      aligned
+        .filter(entry => countPresent(entry) === 1 && entry.matches[productIndex])
+        .sort(byPosition)
+    ),
+    highConcern
+  };
+};
@@ -0,0 +1,93 @@
+import { ContextAdjustment, ContextRule, ProductType, ProductTypeId } from '../types/productContext';
+import { getDatasetEntry } from './ingredientDataset';
+import rawProductContext from '../data/productContext.json';
+
+export const DEFAULT_PRODUCT_TYPE: ProductTypeId = 'leave-on';
+
+interface ProductContextData {
+  version: string;
+  productTypes: ProductType[];
+  rules: ContextRule[];
+}
+
+/**
+ * Checks the product context file at startup. Rules must target ingredients
+ * that exist in the dataset, otherwise a typo would silently never match.
+ */
+const validateProductContext = (data: ProductContextData): ProductContextData => {
+  const errors: string[] = [];
+
+  const typeIds = new Set<string>();
+  data.productTypes.forEach(type => {
+    if (typeIds.has(type.id)) errors.push(`duplicate product type "${type.id}"`);
+    typeIds.add(type.id);
+    if (type.thresholds.low >= type.thresholds.moderate) {
+      errors.push(`${type.id}: thresholds.low must be below thresholds.moderate`);
+    }
+  });
+  if (!typeIds.has(DEFAULT_PRODUCT_TYPE)) {
+    errors.push(`default product type "${DEFAULT_PRODUCT_TYPE}" is missing`);
+  }
+
+  const ruleIds = new Set<string>();
+  data.rules.forEach(rule => {
+    if (ruleIds.has(rule.id)) errors.push(`duplicate rule id "${rule.id}"`);
+    ruleIds.add(rule.id);
+    rule.match.ids?.forEach(id => {
+      if (!getDatasetEntry(id)) errors.push(`${rule.id}: unknown ingredient id "${id}"`);
+    });
+    if (!rule.match.ids && !rule.match.categories && rule.match.minScore === undefined) {
+      errors.push(`${rule.id}: match needs ids, categories or minScore`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid product context data:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+const productContext = validateProductContext(rawProductContext as ProductContextData);
+
+export const productTypes: ProductType[] = productContext.productTypes;
+
+export const getProductType = (id: ProductTypeId = DEFAULT_PRODUCT_TYPE): ProductType =>
+  productTypes.find(type => type.id === id) ??
+  productTypes.find(type => type.id === DEFAULT_PRODUCT_TYPE)!;
+
+const ruleApplies = (
+  rule: ContextRule,
+  ingredient: { recordId?: string; category: string; score: number },
+  productType: ProductType
+): boolean => {
+  const { ids, categories, minScore } = rule.match;
+  const matchesIngredient =
+    (ids !== undefined && ingredient.recordId !== undefined && ids.includes(ingredient.recordId)) ||
+    (categories !== undefined && categories.some(category => category.toLowerCase() === ingredient.category.toLowerCase())) ||
+    (minScore !== undefined && ingredient.score >= minScore);
+
+  const matchesContext = (Object.keys(rule.when) as (keyof typeof rule.when)[])
+    .every(key => rule.when[key] === productType[key]);
+
+  return matchesIngredient && matchesContext;
+};
+
+/**
+ * Adjusts an ingredient's hazard score for how the product is used: exposure
+ * route (rinse-off vs leave-on), inhalation, ingestion and sensitive users.
+ * Every rule that fires is returned so the UI can explain the change.
+ */
+export const applyProductContext = (
+  ingredient: { recordId?: string; category: string; score: number },
+  productType: ProductType
+): { score: number; adjustments: ContextAdjustment[] } => {
+  const adjustments = productContext.rules
+    .filter(rule => ruleApplies(rule, ingredient, productType))
+    .map(rule => ({ ruleId: rule.id, scoreDelta: rule.scoreDelta, note: rule.note }));
+
+  const delta = adjustments.reduce((acc, { scoreDelta }) => acc + scoreDelta, 0);
+  const score = Math.max(1, Math.min(10, ingredient.score + delta));
+
+  return { score, adjustments };
+};
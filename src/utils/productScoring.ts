@@ -0,0 +1,93 @@
+import { Ingredient, IngredientContribution, OverallSafetyLevel, ProductScore, WeightBasis } from '../types/ingredient';
+
+// Share of the remaining formula assumed for each successive undeclared ingredient
+const POSITION_DECAY = 0.5;
+// Nothing above the 1% line is assumed to be present at less than 1%
+const MIN_ABOVE_LINE_WEIGHT = 1;
+// Ingredients below 1% may be listed in any order, so they all get the same weight
+const TRACE_WEIGHT = 0.5;
+// A high-concern ingredient keeps the product score within this distance of its own score
+const HIGH_CONCERN_SCORE = 7;
+const HIGH_CONCERN_FLOOR_OFFSET = 3;
+
+// Preservatives and fragrance are almost always used at 1% or less, so the
+// first one on a label is a reliable marker for where the 1% line falls.
+const ONE_PERCENT_MARKER = /preservative|fragrance/i;
+
+/**
+ * Finds the index of the first ingredient that is at or below 1%. Everything
+ * from that point on may appear in any order under INCI labelling rules.
+ */
+const findOnePercentLine = (ingredients: Ingredient[]): number => {
+  const index = ingredients.findIndex(ingredient =>
+    (ingredient.concentration !== undefined && ingredient.concentration <= 1) ||
+    (ingredient.concentration === undefined && ingredient.functions.some(fn => ONE_PERCENT_MARKER.test(fn)))
+  );
+  return index === -1 ? ingredients.length : index;
+};
+
+const estimateWeights = (ingredients: Ingredient[]): { weight: number; weightBasis: WeightBasis }[] => {
+  const onePercentLine = findOnePercentLine(ingredients);
+  let remaining = 100 - ingredients.reduce((acc, ing) => acc + (ing.concentration ?? 0), 0);
+
+  return ingredients.map((ingredient, index) => {
+    if (ingredient.concentration !== undefined) {
+      return { weight: ingredient.concentration, weightBasis: 'declared' };
+    }
+
+    if (index >= onePercentLine) {
+      return { weight: TRACE_WEIGHT, weightBasis: 'trace' };
+    }
+
+    const weight = Math.max(MIN_ABOVE_LINE_WEIGHT, Math.max(remaining, 0) * POSITION_DECAY);
+    remaining -= weight;
+    return { weight, weightBasis: 'position' };
+  });
+};
+
+/**
+ * Scores a product from its analyzed ingredients, weighting each ingredient by
+ * declared concentration or, failing that, an estimate from its label position.
+ * Returns each ingredient's contribution so the UI can show what drove the score.
+ * "May contain" items are left out since they aren't in every variant.
+ */
+export const calculateProductScore = (analyzed: Ingredient[]): ProductScore => {
+  const ingredients = analyzed.filter(ingredient => !ingredient.mayContain);
+  if (ingredients.length === 0) {
+    return { score: 0, weightedAverage: 0, floorApplied: false, contributions: [] };
+  }
+
+  const ordered = [...ingredients].sort((a, b) => a.position - b.position);
+  const weights = estimateWeights(ordered);
+  const totalWeight = weights.reduce((acc, { weight }) => acc + weight, 0);
+
+  const contributions: IngredientContribution[] = ordered.map((ingredient, index) => ({
+    ingredient,
+    ...weights[index],
+    contribution: (weights[index].weight * ingredient.ewgScore) / totalWeight,
+    share: 0
+  }));
+
+  const weightedAverage = contributions.reduce((acc, { contribution }) => acc + contribution, 0);
+  contributions.forEach(item => {
+    item.share = weightedAverage > 0 ? item.contribution / weightedAverage : 0;
+  });
+
+  const highestConcern = Math.max(...ordered.map(ingredient => ingredient.ewgScore));
+  const floor = highestConcern >= HIGH_CONCERN_SCORE ? highestConcern - HIGH_CONCERN_FLOOR_OFFSET : 0;
+  const score = Math.max(weightedAverage, floor);
+
+  return {
+    score: Math.round(score * 10) / 10,
+    weightedAverage: Math.round(weightedAverage * 10) / 10,
+    floorApplied: floor > weightedAverage,
+    contributions
+  };
+};
+
+export const getOverallSafetyLevel = (score: number): OverallSafetyLevel => {
+  if (score <= 2) return 'Safe';
+  if (score <= 4) return 'Moderately Safe';
+  if (score <= 6) return 'Use with Caution';
+  return 'Potentially Unsafe';
+};
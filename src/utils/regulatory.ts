@@ -0,0 +1,30 @@
+import { Jurisdiction, RegulatoryProfile, RegulatoryStatus, RegulatoryStatusLevel } from '../types/regulatory';
+
+export const jurisdictions: { id: Jurisdiction; label: string; authority: string }[] = [
+  { id: 'EU', label: 'European Union', authority: 'EU Cosmetics Regulation' },
+  { id: 'US', label: 'United States', authority: 'US FDA' },
+  { id: 'IN', label: 'India', authority: 'BIS / CDSCO' },
+  { id: 'ASEAN', label: 'ASEAN', authority: 'ASEAN Cosmetic Directive' },
+  { id: 'JP', label: 'Japan', authority: 'MHLW' },
+];
+
+export const regulatoryStatusLevels: RegulatoryStatusLevel[] = ['banned', 'restricted', 'allowed'];
+
+export const isJurisdiction = (value: unknown): value is Jurisdiction =>
+  jurisdictions.some(({ id }) => id === value);
+
+export const getJurisdictionLabel = (id: Jurisdiction): string =>
+  jurisdictions.find(jurisdiction => jurisdiction.id === id)?.label ?? id;
+
+export const getRegulatoryStatus = (
+  regulatory: RegulatoryProfile | undefined,
+  jurisdiction: Jurisdiction
+): RegulatoryStatus | null => regulatory?.[jurisdiction] ?? null;
+
+// Short human-readable summary, e.g. "Restricted (max 1%)"
+export const describeRegulatoryStatus = (status: RegulatoryStatus): string => {
+  const label = status.status.charAt(0).toUpperCase() + status.status.slice(1);
+  return status.status === 'restricted' && status.maxConcentration !== undefined
+    ? `${label} (max ${status.maxConcentration}%)`
+    : label;
+};
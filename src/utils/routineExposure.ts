@@ -0,0 +1,187 @@
+import { Ingredient } from '../types/ingredient';
+import {
+  ActiveClass,
+  ActiveClassData,
+  DuplicatedActive,
+  RoutineExposure,
+  RoutineExposureItem,
+  RoutineProduct,
+  RoutineRemovalSuggestion
+} from '../types/routine';
+import { containsTerm, tokenizeName } from './textMatching';
+import { flattenIngredients } from './ingredientTree';
+import { alignIngredients } from './productComparison';
+import { getProductType } from './productContext';
+import rawActives from '../data/routineActives.json';
+
+const HIGH_CONCERN_LEVEL = 'High Concern';
+const PRESERVATIVE_FUNCTION = /preservative/i;
+
+// Burden points; the suggestion compares totals, so only the ratios matter
+const HIGH_CONCERN_WEIGHT = 3;
+const DUPLICATED_ACTIVE_WEIGHT = 2;
+const FRAGRANCE_ALLERGEN_WEIGHT = 1;
+const PRESERVATIVE_WEIGHT = 1;
+// Rinse-off products spend minutes on the skin, so they count for less
+const RINSE_OFF_EXPOSURE = 0.5;
+
+/**
+ * Checks the routine actives file at startup: ids must be unique, every
+ * active class needs at least one term and pH adjusters must be among them.
+ */
+const validateActives = (data: ActiveClassData): ActiveClassData => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  data.actives.forEach(active => {
+    if (ids.has(active.id)) errors.push(`duplicate active id "${active.id}"`);
+    ids.add(active.id);
+
+    if (active.terms.length === 0) errors.push(`${active.id}: needs at least one term`);
+    if (active.phAdjusters) {
+      active.phAdjusters.terms
+        .filter(term => !active.terms.includes(term))
+        .forEach(term => errors.push(`${active.id}: pH adjuster "${term}" is not one of its terms`));
+      if (!(active.phAdjusters.minConcentration > 0)) errors.push(`${active.id}: pH adjusters need a positive minConcentration`);
+    }
+    if (!active.note) errors.push(`${active.id}: needs a note`);
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid routine actives:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+const activeClasses = validateActives(rawActives as ActiveClassData).actives;
+
+// Label order can't tell a pH adjuster from an exfoliant, so only a declared strength counts
+const isActiveStrength = (ingredient: Ingredient, term: string, active: ActiveClass): boolean =>
+  !active.phAdjusters?.terms.includes(term) ||
+  (ingredient.concentration !== undefined && ingredient.concentration >= active.phAdjusters.minConcentration);
+
+const matchesActive = (ingredient: Ingredient, active: ActiveClass): boolean =>
+  [ingredient.name, ingredient.canonicalName]
+    .filter((name): name is string => Boolean(name))
+    .map(tokenizeName)
+    .some(tokens =>
+      active.terms.some(term => containsTerm(tokens, term) && isActiveStrength(ingredient, term, active)) &&
+      !(active.unless ?? []).some(term => containsTerm(tokens, term))
+    );
+
+const exposureFactor = (product: RoutineProduct): number =>
+  getProductType(product.productType).exposure === 'rinse-off' ? RINSE_OFF_EXPOSURE : 1;
+
+// "May contain" items aren't in every variant, so they don't count towards exposure
+const listedIngredients = (product: RoutineProduct): Ingredient[] =>
+  flattenIngredients(product.ingredients.filter(ingredient => !ingredient.mayContain));
+
+const collectItems = (
+  products: RoutineProduct[],
+  lists: Ingredient[][],
+  include: (ingredient: Ingredient) => boolean
+): RoutineExposureItem[] =>
+  alignIngredients(lists.map(list => list.filter(include)))
+    .map(({ name, matches }) => ({
+      name,
+      productIds: products.filter((_, index) => matches[index]).map(product => product.id)
+    }));
+
+const collectFragranceAllergens = (products: RoutineProduct[], lists: Ingredient[][]): RoutineExposureItem[] => {
+  const byId = new Map<string, RoutineExposureItem>();
+  lists.forEach((ingredients, index) => {
+    ingredients.forEach(({ fragranceAllergen }) => {
+      if (!fragranceAllergen) return;
+      const item = byId.get(fragranceAllergen.id) ?? { name: fragranceAllergen.name, productIds: [] };
+      if (!item.productIds.includes(products[index].id)) item.productIds.push(products[index].id);
+      byId.set(fragranceAllergen.id, item);
+    });
+  });
+  return Array.from(byId.values()).filter(item => item.productIds.length > 1);
+};
+
+const collectDuplicatedActives = (products: RoutineProduct[], lists: Ingredient[][]): DuplicatedActive[] =>
+  activeClasses
+    .map(active => ({
+      active: { id: active.id, label: active.label, note: active.note },
+      productIds: products
+        .filter((_, index) => lists[index].some(ingredient => matchesActive(ingredient, active)))
+        .map(product => product.id)
+    }))
+    .filter(({ productIds }) => productIds.length > 1);
+
+const byProductCount = (a: RoutineExposureItem, b: RoutineExposureItem) => b.productIds.length - a.productIds.length;
+
+const summarize = (products: RoutineProduct[]): Omit<RoutineExposure, 'suggestion'> => {
+  const lists = products.map(listedIngredients);
+  const factors = new Map(products.map(product => [product.id, exposureFactor(product)]));
+  const weigh = (productIds: string[]) => productIds.reduce((acc, id) => acc + (factors.get(id) ?? 1), 0);
+
+  const preservatives = collectItems(products, lists, ingredient =>
+    ingredient.functions.some(fn => PRESERVATIVE_FUNCTION.test(fn))
+  ).sort(byProductCount);
+  const highConcern = collectItems(products, lists, ingredient => ingredient.safetyLevel === HIGH_CONCERN_LEVEL)
+    .sort(byProductCount);
+  const repeatedFragranceAllergens = collectFragranceAllergens(products, lists).sort(byProductCount);
+  const duplicatedActives = collectDuplicatedActives(products, lists);
+
+  const burden =
+    HIGH_CONCERN_WEIGHT * highConcern.reduce((acc, item) => acc + weigh(item.productIds), 0) +
+    FRAGRANCE_ALLERGEN_WEIGHT * repeatedFragranceAllergens.reduce((acc, item) => acc + weigh(item.productIds), 0) +
+    // Each extra product with the same active counts; the first one is the point of the routine
+    DUPLICATED_ACTIVE_WEIGHT * duplicatedActives.reduce((acc, { productIds }) => acc + productIds.length - 1, 0) +
+    PRESERVATIVE_WEIGHT * preservatives.length;
+
+  return {
+    productCount: products.length,
+    preservatives,
+    repeatedFragranceAllergens,
+    highConcern,
+    highConcernCount: highConcern.reduce((acc, item) => acc + item.productIds.length, 0),
+    duplicatedActives,
+    burden: Math.round(burden * 10) / 10
+  };
+};
+
+const describeRemoval = (productId: string, exposure: Omit<RoutineExposure, 'suggestion'>): string[] => {
+  const names = (items: RoutineExposureItem[]) =>
+    items.filter(item => item.productIds.includes(productId)).map(item => item.name);
+
+  const reasons: string[] = [];
+  const highConcern = names(exposure.highConcern);
+  if (highConcern.length > 0) reasons.push(`High-concern: ${highConcern.join(', ')}`);
+  const actives = exposure.duplicatedActives.filter(({ productIds }) => productIds.includes(productId));
+  if (actives.length > 0) reasons.push(`Duplicates ${actives.map(({ active }) => active.label.toLowerCase()).join(', ')}`);
+  const allergens = names(exposure.repeatedFragranceAllergens);
+  if (allergens.length > 0) reasons.push(`Repeats fragrance allergens: ${allergens.join(', ')}`);
+  const onlyPreservatives = exposure.preservatives
+    .filter(item => item.productIds.length === 1 && item.productIds[0] === productId)
+    .map(item => item.name);
+  if (onlyPreservatives.length > 0) reasons.push(`Only source of ${onlyPreservatives.join(', ')}`);
+  return reasons;
+};
+
+/**
+ * Adds up exposure across the products in a routine: distinct
+ * preservatives, fragrance allergens repeated between products, every
+ * high-concern occurrence and actives used in more than one step. Each is
+ * weighted into a single burden figure (rinse-off products count half), and
+ * the product whose removal lowers that burden most is suggested. Declared
+ * sub-ingredients count; "may contain" items don't.
+ */
+export const analyzeRoutine = (products: RoutineProduct[]): RoutineExposure => {
+  const exposure = summarize(products);
+  if (products.length < 2) return { ...exposure, suggestion: null };
+
+  const suggestion = products
+    .map((product): RoutineRemovalSuggestion => ({
+      productId: product.id,
+      reduction: Math.round((exposure.burden - summarize(products.filter(other => other !== product)).burden) * 10) / 10,
+      reasons: describeRemoval(product.id, exposure)
+    }))
+    .reduce<RoutineRemovalSuggestion | null>((best, candidate) =>
+      candidate.reduction > 0 && (!best || candidate.reduction > best.reduction) ? candidate : best, null);
+
+  return { ...exposure, suggestion };
+};
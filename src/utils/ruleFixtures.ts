@@ -0,0 +1,53 @@
+import { ClassificationRuleSet } from '../types/classification';
+import { OriginRuleSet } from '../types/origin';
+import { EnvironmentalRuleSet } from '../types/environment';
+import { classifyIngredient } from './ingredientClassifier';
+import { classifyOrigin } from './ingredientOrigin';
+import { assessEnvironmentalImpact } from './environmentalImpact';
+import classificationRules from '../data/classificationRules.json';
+import originRules from '../data/ingredientOrigins.json';
+import environmentalRules from '../data/environmentalRules.json';
+
+// Expected and actual results are written out so that equal results compare equal as strings
+interface FixtureResult {
+  suite: string;
+  name: string;
+  expected: string;
+  actual: string;
+}
+
+const listOf = (items: string[]) => `[${items.join(', ')}]`;
+
+const classificationResults = (): FixtureResult[] =>
+  (classificationRules as ClassificationRuleSet).fixtures.map(({ name, functions }) => ({
+    suite: 'classification',
+    name,
+    expected: listOf(functions),
+    actual: listOf(classifyIngredient(name).functions)
+  }));
+
+const originResults = (): FixtureResult[] =>
+  (originRules as OriginRuleSet).fixtures.map(({ name, origin }) => ({
+    suite: 'origin',
+    name,
+    expected: origin,
+    actual: classifyOrigin(name).origin
+  }));
+
+const environmentalResults = (): FixtureResult[] =>
+  (environmentalRules as EnvironmentalRuleSet).fixtures.map(({ name, ruleIds }) => ({
+    suite: 'environmental',
+    name,
+    expected: listOf([...ruleIds].sort()),
+    actual: listOf(assessEnvironmentalImpact(name).flags.map(flag => flag.ruleId).sort())
+  }));
+
+/**
+ * Runs the expected results kept next to the classification, origin and
+ * environmental rules against those rules. Returns one message per fixture
+ * that no longer matches; `npm run check:fixtures` fails on any.
+ */
+export const checkRuleFixtures = (): string[] =>
+  [...classificationResults(), ...originResults(), ...environmentalResults()]
+    .filter(({ expected, actual }) => expected !== actual)
+    .map(({ suite, name, expected, actual }) => `${suite} fixture "${name}": expected ${expected}, got ${actual}`);
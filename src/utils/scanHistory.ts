@@ -0,0 +1,108 @@
+import { Ingredient } from '../types/ingredient';
+import { IngredientScoreDiff, ScanDiff, ScanRecord } from '../types/history';
+import { createStoreAccessor } from './indexedDbStore';
+import { alignIngredients } from './productComparison';
+import { flattenIngredients } from './ingredientTree';
+import { calculateProductScore } from './productScoring';
+
+const DB_NAME = 'nutrinexus-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'scans';
+
+const withStore = createStoreAccessor({ dbName: DB_NAME, version: DB_VERSION, storeName: STORE_NAME, keyPath: 'id' });
+
+const createScanId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Saves a new scan and returns the stored record. Unlike the lookup cache,
+ * history failures are surfaced: losing a scan silently would be worse than
+ * telling the user it wasn't saved.
+ */
+export const saveScan = async (scan: Omit<ScanRecord, 'id' | 'createdAt'>): Promise<ScanRecord> => {
+  const record: ScanRecord = { ...scan, id: createScanId(), createdAt: Date.now() };
+  await withStore('readwrite', store => store.put(record));
+  return record;
+};
+
+export const updateScan = async (record: ScanRecord): Promise<ScanRecord> => {
+  await withStore('readwrite', store => store.put(record));
+  return record;
+};
+
+export const getScan = async (id: string): Promise<ScanRecord | undefined> =>
+  withStore<ScanRecord | undefined>('readonly', store => store.get(id));
+
+export const deleteScan = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// Newest first
+export const listScans = async (): Promise<ScanRecord[]> => {
+  const records = await withStore<ScanRecord[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const searchableText = (record: ScanRecord): string =>
+  [
+    record.productName,
+    record.labelText,
+    record.rawText ?? '',
+    ...record.tags,
+    ...record.ingredients.flatMap(ingredient => [ingredient.name, ingredient.canonicalName ?? ''])
+  ].join(' ').toLowerCase();
+
+/**
+ * Filters scans by a free-text query and a set of tags. Every word of the
+ * query must appear somewhere in the product name, tags, label or OCR text,
+ * or ingredient names; every selected tag must be on the scan.
+ */
+export const searchScans = (records: ScanRecord[], query: string, tags: string[] = []): ScanRecord[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return records.filter(record => {
+    if (!tags.every(tag => record.tags.includes(tag))) return false;
+    if (words.length === 0) return true;
+    const text = searchableText(record);
+    return words.every(word => text.includes(word));
+  });
+};
+
+export const getScanDisplayName = (record: ScanRecord): string =>
+  record.productName || `Scan of ${new Date(record.createdAt).toLocaleDateString()}`;
+
+export const collectTags = (records: ScanRecord[]): string[] =>
+  Array.from(new Set(records.flatMap(record => record.tags))).sort();
+
+const DIFF_ORDER: IngredientScoreDiff['status'][] = ['changed', 'added', 'removed', 'unchanged'];
+
+/**
+ * Compares a saved scan's results with a fresh analysis of the same label,
+ * matching ingredients by canonical name and counting sub-ingredients.
+ * Changed, added and removed ingredients come before unchanged ones.
+ */
+export const diffScans = (previous: Ingredient[], next: Ingredient[]): ScanDiff => {
+  const ingredients = alignIngredients([flattenIngredients(previous), flattenIngredients(next)])
+    .map(({ name, matches: [before, after] }): IngredientScoreDiff => {
+      const status = !before ? 'added'
+        : !after ? 'removed'
+        : before.ewgScore !== after.ewgScore || before.safetyLevel !== after.safetyLevel ? 'changed'
+        : 'unchanged';
+      return {
+        name: after?.name ?? before?.name ?? name,
+        status,
+        previousScore: before?.ewgScore,
+        score: after?.ewgScore,
+        previousSafetyLevel: before?.safetyLevel,
+        safetyLevel: after?.safetyLevel
+      };
+    })
+    .sort((a, b) => DIFF_ORDER.indexOf(a.status) - DIFF_ORDER.indexOf(b.status));
+
+  return {
+    previousScore: calculateProductScore(previous).score,
+    score: calculateProductScore(next).score,
+    ingredients,
+    changedCount: ingredients.filter(ingredient => ingredient.status !== 'unchanged').length
+  };
+};
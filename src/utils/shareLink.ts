@@ -0,0 +1,104 @@
+import { SharedAnalysis } from '../types/share';
+import { ProductTypeId } from '../types/productContext';
+import { LabelLanguage } from '../types/translation';
+import { productTypes } from './productContext';
+import { labelLanguages } from './ingredientTranslation';
+
+const SHARE_PARAM = 'analysis';
+// Links always carry the version they were written with, so readers for old versions must stay
+const CURRENT_VERSION = '1';
+
+// Version 1 payload: [labelText, mode, productType, language], empty strings for unset fields
+type PayloadV1 = [string, string, string, string];
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const isLanguage = (value: string): value is LabelLanguage | 'auto' =>
+  value === 'auto' || labelLanguages.some(({ id }) => id === value);
+
+const isProductType = (value: string): value is ProductTypeId =>
+  productTypes.some(({ id }) => id === value);
+
+const readPayloadV1 = async (payload: string): Promise<SharedAnalysis> => {
+  const json = new TextDecoder().decode(await pipeThrough(fromBase64Url(payload), new DecompressionStream('deflate-raw')));
+  const data: unknown = JSON.parse(json);
+  if (!Array.isArray(data) || data.length !== 4 || data.some(field => typeof field !== 'string')) {
+    throw new Error('unexpected payload shape');
+  }
+
+  const [labelText, mode, productType, language] = data as PayloadV1;
+  const errors: string[] = [];
+  if (!labelText.trim()) errors.push('ingredient list is empty');
+  if (mode !== 'cosmetic' && mode !== 'food') errors.push(`unknown mode "${mode}"`);
+  if (productType && !isProductType(productType)) errors.push(`unknown product type "${productType}"`);
+  if (!isLanguage(language)) errors.push(`unknown language "${language}"`);
+  if (errors.length > 0) throw new Error(errors.join(', '));
+
+  return {
+    labelText,
+    mode: mode as SharedAnalysis['mode'],
+    productType: productType ? (productType as ProductTypeId) : undefined,
+    language: language as SharedAnalysis['language']
+  };
+};
+
+const readers: Record<string, (payload: string) => Promise<SharedAnalysis>> = {
+  '1': readPayloadV1,
+};
+
+const getShareValue = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM);
+
+export const hasSharedAnalysis = (hash: string): boolean => getShareValue(hash) !== null;
+
+/**
+ * Encodes an analysis's inputs as a URL fragment ("#analysis=1.<data>"): the
+ * ingredient list and product context, deflated and base64url-encoded. The
+ * fragment never reaches a server, and the leading version number lets
+ * newer builds keep reading links made by older ones.
+ */
+export const encodeSharedAnalysis = async ({ labelText, mode, productType, language }: SharedAnalysis): Promise<string> => {
+  const payload: PayloadV1 = [labelText, mode, mode === 'cosmetic' ? productType ?? '' : '', language];
+  const bytes = await pipeThrough(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+  return `#${SHARE_PARAM}=${CURRENT_VERSION}.${toBase64Url(bytes)}`;
+};
+
+export const createShareUrl = async (analysis: SharedAnalysis): Promise<string> =>
+  `${window.location.origin}${window.location.pathname}${await encodeSharedAnalysis(analysis)}`;
+
+/**
+ * Reads a shared analysis from a URL fragment. Returns null when the
+ * fragment has no share link and throws when the link is damaged or was
+ * made by a newer version of the app.
+ */
+export const readSharedAnalysis = async (hash: string): Promise<SharedAnalysis | null> => {
+  const value = getShareValue(hash);
+  if (value === null) return null;
+
+  const separator = value.indexOf('.');
+  const version = separator === -1 ? '' : value.slice(0, separator);
+  const reader = readers[version];
+  if (!reader) {
+    throw new Error(`Invalid share link: unsupported version "${version}". Try updating the app.`);
+  }
+
+  try {
+    return await reader(value.slice(separator + 1));
+  } catch (error) {
+    throw new Error(`Invalid share link: ${error instanceof Error ? error.message : 'could not be decoded'}`);
+  }
+};
@@ -0,0 +1,136 @@
+import { Ingredient } from '../types/ingredient';
+import {
+  SkinConcern,
+  SkinConcernLevel,
+  SkinRatingKind,
+  SkinType,
+  SkinTypeDataset,
+  SkinTypeRule,
+  SuitabilityVerdict
+} from '../types/skinProfile';
+import { normalizeIngredientName } from './ingredientDataset';
+import { containsPhrase } from './textMatching';
+import { flattenIngredients } from './ingredientTree';
+import rawDataset from '../data/skinTypes.json';
+
+const CONCERN_LEVELS: SkinConcernLevel[] = ['avoid', 'caution'];
+const RATING_KINDS: SkinRatingKind[] = ['comedogenicity', 'irritancy'];
+
+const ratingLabels: Record<SkinRatingKind, string> = {
+  comedogenicity: 'Comedogenic',
+  irritancy: 'Irritancy',
+};
+
+/**
+ * Checks the skin-type rules at startup: thresholds must sit on the 0-5
+ * rating scale with `caution` no higher than `avoid`, and term rules need
+ * terms and a known level.
+ */
+const validateSkinTypes = (data: SkinTypeDataset): SkinTypeDataset => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  data.skinTypes.forEach(rule => {
+    if (ids.has(rule.id)) errors.push(`duplicate skin type "${rule.id}"`);
+    ids.add(rule.id);
+
+    Object.entries(rule.thresholds).forEach(([kind, threshold]) => {
+      if (!RATING_KINDS.includes(kind as SkinRatingKind)) errors.push(`${rule.id}: unknown rating "${kind}"`);
+      if (!threshold) return;
+      const { caution, avoid } = threshold;
+      if (![caution, avoid].every(value => Number.isInteger(value) && value >= 0 && value <= 5)) {
+        errors.push(`${rule.id}.${kind}: thresholds must be integers from 0 to 5`);
+      } else if (caution > avoid) {
+        errors.push(`${rule.id}.${kind}: caution must not be above avoid`);
+      }
+    });
+
+    rule.terms.forEach(({ terms, level }, index) => {
+      if (terms.length === 0) errors.push(`${rule.id}.terms[${index}]: needs at least one term`);
+      if (!CONCERN_LEVELS.includes(level)) errors.push(`${rule.id}.terms[${index}]: unknown level "${level}"`);
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid skin type rules:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return data;
+};
+
+const skinTypeDataset = validateSkinTypes(rawDataset as SkinTypeDataset);
+
+export const skinTypes: { id: SkinType; label: string }[] = skinTypeDataset.skinTypes.map(({ id, label }) => ({ id, label }));
+
+export const isSkinType = (value: unknown): value is SkinType =>
+  skinTypes.some(({ id }) => id === value);
+
+export const getSkinTypeLabel = (id: SkinType): string =>
+  skinTypes.find(skinType => skinType.id === id)?.label ?? id;
+
+const checkRatings = (ingredient: Ingredient, rule: SkinTypeRule): SkinConcern | null => {
+  let concern: SkinConcern | null = null;
+
+  RATING_KINDS.forEach(kind => {
+    const threshold = rule.thresholds[kind];
+    const rating = ingredient.skin?.[kind];
+    if (!threshold || rating === undefined || rating < threshold.caution) return;
+
+    const level: SkinConcernLevel = rating >= threshold.avoid ? 'avoid' : 'caution';
+    if (!concern || (concern.level === 'caution' && level === 'avoid')) {
+      concern = { ingredient, skinType: rule.id, level, reason: `${ratingLabels[kind]} rating ${rating}/5` };
+    }
+  });
+
+  return concern;
+};
+
+const checkTerms = (ingredient: Ingredient, rule: SkinTypeRule): SkinConcern | null => {
+  const names = [ingredient.name, ingredient.canonicalName]
+    .filter((name): name is string => Boolean(name))
+    .map(normalizeIngredientName);
+
+  const match = rule.terms.find(({ terms }) =>
+    terms.some(term => names.some(name => containsPhrase(name, normalizeIngredientName(term))))
+  );
+
+  return match ? { ingredient, skinType: rule.id, level: match.level, reason: match.reason } : null;
+};
+
+/**
+ * Judges how well a product suits the selected skin types from each
+ * ingredient's comedogenicity and irritancy ratings plus per-type trigger
+ * terms. Any "avoid" concern makes the product unsuitable, any "caution"
+ * concern calls for caution. "May contain" items are left out. This is a
+ * separate verdict from the hazard score: coconut oil is low hazard but a
+ * poor choice for acne-prone skin.
+ */
+export const assessSkinSuitability = (ingredients: Ingredient[], selected: SkinType[]): SuitabilityVerdict => {
+  const listed = flattenIngredients(ingredients.filter(ingredient => !ingredient.mayContain));
+  const rules = skinTypeDataset.skinTypes.filter(rule => selected.includes(rule.id));
+  const concerns: SkinConcern[] = [];
+
+  listed.forEach(ingredient => {
+    rules.forEach(rule => {
+      const ratingConcern = checkRatings(ingredient, rule);
+      const termConcern = checkTerms(ingredient, rule);
+      // One concern per ingredient and skin type: the stronger one, preferring the rating on a tie
+      const concern = ratingConcern && (ratingConcern.level === 'avoid' || termConcern?.level !== 'avoid')
+        ? ratingConcern
+        : termConcern;
+      if (concern) concerns.push(concern);
+    });
+  });
+
+  const ratedCount = listed.filter(ingredient => ingredient.skin).length;
+
+  return {
+    level: concerns.some(({ level }) => level === 'avoid')
+      ? 'unsuitable'
+      : concerns.length > 0 ? 'caution' : 'suitable',
+    skinTypes: rules.map(rule => rule.id),
+    concerns: concerns.sort((a, b) => CONCERN_LEVELS.indexOf(a.level) - CONCERN_LEVELS.indexOf(b.level)),
+    unratedCount: listed.length - ratedCount,
+    ratedCount
+  };
+};
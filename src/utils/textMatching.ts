@@ -0,0 +1,54 @@
+import { normalizeIngredientName } from './ingredientDataset';
+
+// Short terms such as "mi" or "tea" are only trusted as the whole ingredient name
+const MIN_CONTAINED_TERM_LENGTH = 4;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whole-word phrase check on normalized names: "nickel" is found in
+ * "nickel sulfate" but "lead" is not found in "mislead".
+ */
+export const containsPhrase = (haystack: string, phrase: string): boolean => {
+  if (haystack === phrase) return true;
+  if (phrase.length < MIN_CONTAINED_TERM_LENGTH) return false;
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(phrase)}([^a-z0-9]|$)`).test(haystack);
+};
+
+const TOKEN_SEPARATOR = /[\s,/()]+/;
+
+// Hyphens stay inside tokens so "oil-free" is not the token "oil"
+export const tokenizeName = (text: string): string[] =>
+  normalizeIngredientName(text).split(TOKEN_SEPARATOR).filter(Boolean);
+
+// Rule terms skip name normalization, which would strip their "*" wildcards
+const tokenizeTerm = (term: string): string[] =>
+  term.toLowerCase().split(TOKEN_SEPARATOR).filter(Boolean);
+
+const matchesToken = (token: string, pattern: string): boolean => {
+  const prefix = pattern.startsWith('*');
+  const suffix = pattern.endsWith('*');
+  const core = pattern.slice(prefix ? 1 : 0, suffix ? -1 : undefined);
+
+  if (prefix && suffix) return token.includes(core);
+  if (prefix) return token.endsWith(core);
+  if (suffix) return token.startsWith(core);
+  return token === core;
+};
+
+/**
+ * True when the term's words appear as consecutive tokens of the name, so
+ * "sodium" never matches inside "sodium chloride" unless a rule says so. A
+ * "*" at either end of a word allows a prefix or suffix ("*paraben", "peg-*").
+ */
+export const containsTerm = (tokens: string[], term: string): boolean => {
+  const patterns = tokenizeTerm(term);
+  if (patterns.length === 0) return false;
+
+  for (let start = 0; start + patterns.length <= tokens.length; start++) {
+    if (patterns.every((pattern, offset) => matchesToken(tokens[start + offset], pattern))) {
+      return true;
+    }
+  }
+  return false;
+};